@@ -1,24 +1,10 @@
-<<<<<<< HEAD
-import type { Metadata } from "next";
-import { Geist, Geist_Mono } from "next/font/google";
-import "./globals.css";
-
-const geistSans = Geist({
-  variable: "--font-geist-sans",
-  subsets: ["latin"],
-});
-
-const geistMono = Geist_Mono({
-  variable: "--font-geist-mono",
-  subsets: ["latin"],
-});
-
-export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
-=======
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
+import { AppStoreProvider } from '@/store/AppStoreProvider';
+import DevStateInspector from '@/components/DevStateInspector';
+import { createApiClient } from '@/store/apiClient';
+import { hasMorePages, normalizeComments } from '@/store/slices/commentsSlice';
+import type { PersistedState } from '@/types/store';
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -26,33 +12,47 @@ const inter = Inter({ subsets: ['latin'] });
 export const metadata: Metadata = {
   title: 'Zustand Hydration Playground',
   description: 'Learning Zustand state management with hydration patterns',
->>>>>>> 9cc52abc (add rehydration section)
 };
 
-export default function RootLayout({
-  children,
-<<<<<<< HEAD
-}: Readonly<{
-  children: React.ReactNode;
-}>) {
-  return (
-    <html lang="en">
-      <body
-        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
-      >
-        {children}
-      </body>
-    </html>
-  );
+// Every page waits on the prefetch, so a slow API only delays it this long
+const PREFETCH_TIMEOUT = 3000;
+
+// Prefetched on the server and handed to the client store, so comments render
+// without waiting for a client-side fetch. The page still works without them.
+async function prefetchComments(): Promise<Partial<PersistedState> | undefined> {
+  try {
+    const { comments, total } = await createApiClient().getComments(1, {
+      signal: AbortSignal.timeout(PREFETCH_TIMEOUT),
+      next: { revalidate: 60 }
+    });
+    return {
+      ...normalizeComments(comments),
+      page: 1,
+      total,
+      hasMore: hasMorePages(comments.length, comments.length, total),
+      lastFetchedAt: Date.now()
+    };
+  } catch (error) {
+    console.error('❌ Comment prefetch failed:', error);
+    return undefined;
+  }
 }
-=======
+
+export default async function RootLayout({
+  children,
 }: {
   children: React.ReactNode;
 }) {
+  const initialState = await prefetchComments();
+
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        <AppStoreProvider initialState={initialState}>
+          {children}
+          <DevStateInspector />
+        </AppStoreProvider>
+      </body>
     </html>
   );
 }
->>>>>>> 9cc52abc (add rehydration section)
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import type { BackupImportMode, PersistedState } from '@/types/store';
+import useAppStore from '@/store/useAppStore';
+import { downloadBackup, readBackupFile, restoreBackup } from '@/store/backup';
+
+interface PendingImport {
+  fileName: string;
+  backup: unknown;
+  /** What the backup restores to, for the summary */
+  preview: PersistedState;
+}
+
+export default function BackupPanel() {
+  const exportBackup = useAppStore((state) => state.exportBackup);
+  const importBackup = useAppStore((state) => state.importBackup);
+  const [dragging, setDragging] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const backup = await readBackupFile(file);
+      // Validated up front, so a broken file never gets as far as the merge/replace choice
+      setPending({ fileName: file.name, backup, preview: restoreBackup(backup) });
+      setMessage(null);
+    } catch (error) {
+      setPending(null);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const confirmImport = (mode: BackupImportMode) => {
+    if (!pending) return;
+
+    try {
+      importBackup(pending.backup, mode);
+      setMessage({ type: 'success', text: `${mode === 'merge' ? 'Merged' : 'Restored'} ${pending.fileName}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+    }
+    setPending(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 text-left space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-800">Backup</h2>
+        <button
+          onClick={() => downloadBackup(exportBackup())}
+          className="px-3 py-1 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+        >
+          Export
+        </button>
+      </div>
+
+      <label
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setDragging(false);
+          void readFile(event.dataTransfer.files[0]);
+        }}
+        className={`block border-2 border-dashed rounded p-4 text-center text-sm cursor-pointer ${
+          dragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500'
+        }`}
+      >
+        Drop a backup file here, or click to choose one
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            void readFile(event.target.files?.[0]);
+            event.target.value = '';
+          }}
+        />
+      </label>
+
+      {pending && (
+        <div className="border rounded p-3 text-sm space-y-2">
+          <p className="text-gray-800">
+            {pending.fileName}: {pending.preview.counterIds.length} counter(s), {pending.preview.commentIds.length} comment(s)
+            {pending.preview.outbox.length > 0 && `, ${pending.preview.outbox.length} unsent change(s)`}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => confirmImport('merge')} className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600">
+              Merge
+            </button>
+            <button onClick={() => confirmImport('replace')} className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600">
+              Replace
+            </button>
+            <button onClick={() => setPending(null)} className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`} role="status">
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
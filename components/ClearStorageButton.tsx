@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppStoreApi } from '@/store/AppStoreProvider';
+import { resetAppStore } from '@/store/createAppStore';
+import { downloadBackup } from '@/store/backup';
+
+export default function ClearStorageButton() {
+  const store = useAppStoreApi();
+  const [confirming, setConfirming] = useState(false);
+  const [exportFirst, setExportFirst] = useState(true);
+  const [clearing, setClearing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clear = async () => {
+    setClearing(true);
+    setError(null);
+    try {
+      // Throws before anything is wiped if the backup can't be produced
+      if (exportFirst) downloadBackup(store.getState().exportBackup());
+      await resetAppStore(store);
+      setConfirming(false);
+    } catch (caught) {
+      console.error('❌ Failed to clear storage:', caught);
+      setError(caught instanceof Error ? caught.message : 'An error occurred');
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  if (!confirming) {
+    return (
+      <button
+        onClick={() => setConfirming(true)}
+        className="px-3 py-1 bg-red-500 text-white text-sm rounded hover:bg-red-600"
+      >
+        Clear Storage
+      </button>
+    );
+  }
+
+  return (
+    <div role="alertdialog" aria-label="Clear storage" className="bg-white border border-red-300 rounded p-3 text-sm max-w-xs space-y-2">
+      <p className="text-gray-800">
+        This removes all counters, loaded comments and unsent comment changes from this browser.
+      </p>
+      <label className="flex items-center gap-2 text-gray-700">
+        <input type="checkbox" checked={exportFirst} onChange={(event) => setExportFirst(event.target.checked)} />
+        Download a backup first
+      </label>
+      {error && <p className="text-red-600">Couldn&apos;t clear storage: {error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={clear}
+          disabled={clearing}
+          className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50"
+        >
+          {clearing ? 'Clearing...' : 'Clear everything'}
+        </button>
+        <button
+          onClick={() => {
+            setConfirming(false);
+            setError(null);
+          }}
+          disabled={clearing}
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
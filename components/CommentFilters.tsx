@@ -0,0 +1,77 @@
+'use client';
+
+import type { CommentSortKey } from '@/types/store';
+import useAppStore from '@/store/useAppStore';
+import { selectCommentEmailDomains, selectCommentPostIds, selectCommentQuery } from '@/store/selectors';
+import { useCommentQueryUrlSync } from '@/store/useCommentQueryUrlSync';
+
+const SORT_LABELS: Record<CommentSortKey, string> = {
+  id: 'Id',
+  name: 'Title',
+  length: 'Length'
+};
+
+export default function CommentFilters() {
+  useCommentQueryUrlSync();
+
+  const query = useAppStore(selectCommentQuery);
+  const postIds = useAppStore(selectCommentPostIds);
+  const domains = useAppStore(selectCommentEmailDomains);
+  const setCommentQuery = useAppStore((state) => state.setCommentQuery);
+  const resetCommentQuery = useAppStore((state) => state.resetCommentQuery);
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-4 text-sm">
+      <input
+        type="search"
+        value={query.search}
+        onChange={(event) => setCommentQuery({ search: event.target.value })}
+        placeholder="Search comments..."
+        className="flex-1 min-w-[10rem] px-2 py-1 border rounded"
+      />
+      <select
+        value={query.postId ?? ''}
+        onChange={(event) => setCommentQuery({ postId: event.target.value ? Number(event.target.value) : null })}
+        aria-label="Filter by post"
+        className="px-2 py-1 border rounded"
+      >
+        <option value="">All posts</option>
+        {/* Keep a filter from the URL selectable before its comments are loaded */}
+        {[...new Set([...postIds, ...(query.postId !== null ? [query.postId] : [])])].map((postId) => (
+          <option key={postId} value={postId}>Post {postId}</option>
+        ))}
+      </select>
+      <select
+        value={query.emailDomain ?? ''}
+        onChange={(event) => setCommentQuery({ emailDomain: event.target.value || null })}
+        aria-label="Filter by email domain"
+        className="px-2 py-1 border rounded"
+      >
+        <option value="">All domains</option>
+        {[...new Set([...domains, ...(query.emailDomain !== null ? [query.emailDomain] : [])])].map((domain) => (
+          <option key={domain} value={domain}>@{domain}</option>
+        ))}
+      </select>
+      <select
+        value={query.sortBy}
+        onChange={(event) => setCommentQuery({ sortBy: event.target.value as CommentSortKey })}
+        aria-label="Sort by"
+        className="px-2 py-1 border rounded"
+      >
+        {(Object.keys(SORT_LABELS) as CommentSortKey[]).map((key) => (
+          <option key={key} value={key}>{SORT_LABELS[key]}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => setCommentQuery({ sortDirection: query.sortDirection === 'asc' ? 'desc' : 'asc' })}
+        aria-label="Toggle sort direction"
+        className="px-2 py-1 border rounded"
+      >
+        {query.sortDirection === 'asc' ? '↑' : '↓'}
+      </button>
+      <button onClick={resetCommentQuery} className="px-2 py-1 text-blue-600 hover:underline">
+        Reset
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import useAppStore from '@/store/useAppStore';
+
+const emptyDraft = { postId: '1', name: '', email: '', body: '' };
+
+export default function CommentForm() {
+  const addComment = useAppStore((state) => state.addComment);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const update = (field: keyof typeof emptyDraft) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setDraft({ ...draft, [field]: event.target.value });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    // Shown immediately; failures roll back and surface on the comment list
+    addComment({ ...draft, postId: Number(draft.postId) });
+    setDraft(emptyDraft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 space-y-2 border-b pb-4">
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={1}
+          required
+          value={draft.postId}
+          onChange={update('postId')}
+          aria-label="Post id"
+          className="w-20 px-2 py-1 border rounded"
+        />
+        <input
+          required
+          value={draft.name}
+          onChange={update('name')}
+          placeholder="Title"
+          className="flex-1 px-2 py-1 border rounded"
+        />
+        <input
+          type="email"
+          required
+          value={draft.email}
+          onChange={update('email')}
+          placeholder="Email"
+          className="flex-1 px-2 py-1 border rounded"
+        />
+      </div>
+      <textarea
+        required
+        value={draft.body}
+        onChange={update('body')}
+        placeholder="Write a comment..."
+        rows={2}
+        className="w-full px-2 py-1 border rounded"
+      />
+      <button
+        type="submit"
+        className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600"
+      >
+        Add Comment
+      </button>
+    </form>
+  );
+}
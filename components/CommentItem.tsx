@@ -0,0 +1,87 @@
+'use client';
+
+import { memo, useState } from 'react';
+import type { Comment } from '@/types/store';
+import useAppStore from '@/store/useAppStore';
+
+const syncLabels = {
+  pending: 'Saving...',
+  queued: 'Waiting for connection'
+};
+
+// Revalidation keeps unchanged comments as the same objects, so only rows
+// whose comment actually changed re-render
+function CommentItem({ comment }: { comment: Comment }) {
+  const sync = useAppStore((state) => state.commentSync[comment.id]);
+  const editComment = useAppStore((state) => state.editComment);
+  const deleteComment = useAppStore((state) => state.deleteComment);
+  const dismissCommentError = useAppStore((state) => state.dismissCommentError);
+  const [editing, setEditing] = useState(false);
+  const [body, setBody] = useState(comment.body);
+  // Not on the server yet, so there is nothing to edit or delete there
+  const unsaved = comment.id < 0;
+
+  const startEditing = () => {
+    setBody(comment.body);
+    setEditing(true);
+  };
+
+  const save = () => {
+    setEditing(false);
+    if (body !== comment.body) editComment(comment.id, { body });
+  };
+
+  return (
+    <div className={`border-l-4 border-blue-500 pl-4 py-2 ${sync && sync.state !== 'failed' ? 'opacity-60' : ''}`}>
+      <div className="flex justify-between items-start gap-2">
+        <h3 className="font-semibold text-gray-800">{comment.name}</h3>
+        <div className="flex items-center gap-2 text-sm shrink-0">
+          {sync && sync.state !== 'failed' && (
+            <span className="text-gray-500 italic">{syncLabels[sync.state]}</span>
+          )}
+          {!editing && (
+            <button
+              onClick={startEditing}
+              disabled={unsaved}
+              className="text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            onClick={() => deleteComment(comment.id)}
+            disabled={unsaved}
+            className="text-red-600 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600">{comment.email}</p>
+      {editing ? (
+        <div className="mt-1 space-y-1">
+          <textarea
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            rows={2}
+            className="w-full px-2 py-1 border rounded"
+          />
+          <div className="space-x-2 text-sm">
+            <button onClick={save} className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600">Save</button>
+            <button onClick={() => setEditing(false)} className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-700 mt-1">{comment.body}</p>
+      )}
+      {sync?.state === 'failed' && (
+        <p className="text-sm text-red-600 mt-1">
+          Couldn&apos;t save your {sync.type === 'update' ? 'edit' : 'change'}: {sync.error}{' '}
+          <button onClick={() => dismissCommentError(comment.id)} className="underline">Dismiss</button>
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default memo(CommentItem);
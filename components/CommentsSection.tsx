@@ -1,41 +1,76 @@
 'use client';
 
-import { useEffect } from 'react';
 import useAppStore from '@/store/useAppStore';
-import { shallow } from 'zustand/shallow';
+import { useCommentsRevalidation } from '@/store/useCommentsRevalidation';
+import { useShallow } from 'zustand/react/shallow';
+import {
+  selectCommentCountsByPost,
+  selectComments,
+  selectFilteredComments,
+  selectUniqueCommenters
+} from '@/store/selectors';
+import CommentFilters from './CommentFilters';
+import CommentForm from './CommentForm';
+import CommentItem from './CommentItem';
+import LastUpdated from './LastUpdated';
+
+const LOAD_MORE_THRESHOLD_PX = 100;
 
 export default function CommentsSection() {
   const { 
     comments, 
     loading, 
     error, 
+    hasMore,
+    total,
     fetchComments, 
-    clearComments 
+    fetchNextPage,
+    clearComments,
+    commentSync,
+    dismissCommentError
   } = useAppStore(
-    (state) => ({
-      comments: state.comments,
+    useShallow((state) => ({
+      comments: selectComments(state),
       loading: state.loading,
       error: state.error,
+      hasMore: state.hasMore,
+      total: state.total,
       fetchComments: state.fetchComments,
-      clearComments: state.clearComments
-    }),
-    shallow
+      fetchNextPage: state.fetchNextPage,
+      clearComments: state.clearComments,
+      commentSync: state.commentSync,
+      dismissCommentError: state.dismissCommentError
+    }))
+  );
+  const visibleComments = useAppStore(selectFilteredComments);
+  const commenterCount = useAppStore((state) => selectUniqueCommenters(state).length);
+  const postCount = useAppStore((state) => Object.keys(selectCommentCountsByPost(state)).length);
+
+  // A rolled-back delete shows its error on the restored comment; other
+  // failures (e.g. a rejected create) have no row left to show it on
+  const orphanedErrors = Object.entries(commentSync).filter(([id, sync]) =>
+    sync.state === 'failed' && !comments.some((comment) => comment.id === Number(id))
   );
 
-  useEffect(() => {
-    // Only fetch if we don't have comments (not persisted from storage)
-    if (comments.length === 0 && !loading) {
-      fetchComments();
+  // Persisted comments show right away and are refreshed in the background
+  useCommentsRevalidation();
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+    // Start loading before the user actually hits the bottom
+    if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD_PX && hasMore && !loading) {
+      fetchNextPage();
     }
-  }, []);
+  };
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-2xl font-bold text-gray-800">Comments</h2>
-        <div className="space-x-2">
+        <div className="flex items-center space-x-2">
+          <LastUpdated />
           <button
-            onClick={fetchComments}
+            onClick={() => fetchComments({ force: true })}
             disabled={loading}
             className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -50,6 +85,16 @@ export default function CommentsSection() {
         </div>
       </div>
 
+      <CommentForm />
+      <CommentFilters />
+
+      {orphanedErrors.map(([id, sync]) => sync.state === 'failed' && (
+        <div key={id} className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <span>Couldn&apos;t save your comment: {sync.error}</span>
+          <button onClick={() => dismissCommentError(Number(id))} className="underline">Dismiss</button>
+        </div>
+      ))}
+
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
           Error: {error}
@@ -61,23 +106,36 @@ export default function CommentsSection() {
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
         </div>
       ) : comments.length > 0 ? (
-        <div className="space-y-3 max-h-96 overflow-y-auto">
-          {comments.map((comment) => (
-            <div key={comment.id} className="border-l-4 border-blue-500 pl-4 py-2">
-              <h3 className="font-semibold text-gray-800">{comment.name}</h3>
-              <p className="text-sm text-gray-600">{comment.email}</p>
-              <p className="text-gray-700 mt-1">{comment.body}</p>
-            </div>
+        <div className="space-y-3 max-h-96 overflow-y-auto" onScroll={handleScroll}>
+          {visibleComments.map((comment) => (
+            <CommentItem key={comment.id} comment={comment} />
           ))}
+          {visibleComments.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-2">No loaded comments match your search</p>
+          )}
+          {/* A filtered list may be too short to scroll, so offer the next page explicitly */}
+          {hasMore && !loading && visibleComments.length < comments.length && (
+            <button onClick={() => fetchNextPage()} className="block mx-auto text-sm text-blue-600 hover:underline">
+              Load more
+            </button>
+          )}
+          {loading && (
+            <p className="text-sm text-gray-500 text-center py-2">Loading more...</p>
+          )}
+          {!hasMore && (
+            <p className="text-sm text-gray-400 text-center py-2">All comments loaded</p>
+          )}
         </div>
       ) : (
         <p className="text-gray-500 text-center py-8">
-          No comments loaded. Click "Refresh" to fetch comments.
+          No comments loaded. Click &quot;Refresh&quot; to fetch comments.
         </p>
       )}
 
       <div className="mt-4 text-sm text-gray-500">
-        Total: {comments.length} comments {comments.length > 0 && '(Persisted to localStorage)'}
+        {visibleComments.length !== comments.length && `Showing ${visibleComments.length} | `}
+        Loaded: {comments.length}{total !== null && ` of ${total}`} comments {comments.length > 0 && '(Persisted to localStorage)'}
+        {comments.length > 0 && <p>{commenterCount} commenter(s) across {postCount} post(s)</p>}
       </div>
     </div>
   );
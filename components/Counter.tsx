@@ -1,35 +1,33 @@
 'use client'
 
 import { useStore } from '@/store/useStore'
-import { useEffect, useState } from 'react'
+import { useAppStorePick } from '@/store/useAppStore'
+import { useHydrated } from '@/store/hydration'
+import { useAppStoreApi } from '@/store/AppStoreProvider'
+import { selectCounter, selectCounterError } from '@/store/selectors'
+import { DEFAULT_COUNTER_ID } from '@/store/slices/counterSlice'
 
-export default function Counter() {
-  // Get state and actions from Zustand store
-  const { count, increment, decrement, reset, setCount } = useStore()
-  
-  // Track hydration status to prevent hydration mismatch
-  const [isHydrated, setIsHydrated] = useState(false)
-
-  // Effect runs only on client-side after component mounts
-  // This ensures proper hydration with persisted state from localStorage
-  useEffect(() => {
-    setIsHydrated(true)
-  }, [])
+export default function Counter({ id = DEFAULT_COUNTER_ID }: { id?: string }) {
+  // Get this counter and the actions from Zustand store
+  const counter = useStore(selectCounter(id))
+  const countError = useStore(selectCounterError(id))
+  const { counterConstraints, increment, decrement, reset, setCount } = useAppStorePick(
+    'counterConstraints',
+    'increment',
+    'decrement',
+    'reset',
+    'setCount'
+  )
+  const { min, max, step, integerOnly } = counterConstraints
+  // The first render uses the state handed over by the server, so there is
+  // no placeholder to swap out; persisted values replace it once
+  // AppStoreProvider has read storage after mounting
+  const isHydrated = useHydrated(useAppStoreApi())
 
-  // Show loading state during SSR and initial hydration
-  // This prevents hydration mismatch between server and client
-  if (!isHydrated) {
+  if (!counter) {
     return (
-      <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full">
-        <h2 className="text-2xl font-bold text-gray-800 mb-6">
-          Counter with Hydration
-        </h2>
-        <div className="text-center mb-8">
-          <div className="text-6xl font-bold text-blue-600 animate-pulse">
-            ...
-          </div>
-          <p className="text-sm text-gray-500 mt-2">Loading persisted state...</p>
-        </div>
+      <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full text-gray-500">
+        This counter has been removed.
       </div>
     )
   }
@@ -37,17 +35,23 @@ export default function Counter() {
   return (
     <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full">
       <h2 className="text-2xl font-bold text-gray-800 mb-6">
-        Counter with Hydration
+        {counter.name}
       </h2>
       
       {/* Display current count */}
       <div className="text-center mb-8">
         <div className="text-6xl font-bold text-blue-600 transition-all duration-300 transform hover:scale-110">
-          {count}
+          {counter.count}
         </div>
         <p className="text-sm text-gray-500 mt-2">
-          This value persists in localStorage
+          {isHydrated ? 'This value persists in localStorage' : 'Loading persisted state...'}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+          Between {min} and {max}, step {step}
         </p>
+        {countError && (
+          <p className="text-sm text-red-600 mt-2" role="alert">{countError}</p>
+        )}
       </div>
 
       {/* Interactive buttons */}
@@ -55,13 +59,13 @@ export default function Counter() {
         {/* Primary action buttons */}
         <div className="flex gap-3">
           <button
-            onClick={decrement}
+            onClick={() => decrement(id)}
             className="flex-1 bg-red-500 hover:bg-red-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200 transform active:scale-95"
           >
             - Decrement
           </button>
           <button
-            onClick={increment}
+            onClick={() => increment(id)}
             className="flex-1 bg-green-500 hover:bg-green-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200 transform active:scale-95"
           >
             + Increment
@@ -71,13 +75,14 @@ export default function Counter() {
         {/* Secondary action buttons */}
         <div className="flex gap-3">
           <button
-            onClick={reset}
+            onClick={() => reset(id)}
             className="flex-1 bg-gray-500 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200 transform active:scale-95"
           >
-            Reset to 0
+            Reset
           </button>
           <button
-            onClick={() => setCount(100)}
+            onClick={() => setCount(id, 100)}
+            disabled={100 < min || 100 > max}
             className="flex-1 bg-purple-500 hover:bg-purple-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200 transform active:scale-95"
           >
             Set to 100
@@ -88,20 +93,22 @@ export default function Counter() {
         <div className="flex gap-3">
           <input
             type="number"
+            min={min}
+            max={max}
+            step={integerOnly ? 1 : 'any'}
             placeholder="Enter custom value"
             className="flex-1 px-4 py-2 border-2 border-gray-300 rounded-lg focus:outline-none focus:border-blue-500"
             onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                const value = parseInt((e.target as HTMLInputElement).value)
-                if (!isNaN(value)) {
-                  setCount(value)
-                  ;(e.target as HTMLInputElement).value = ''
-                }
+              const input = e.target as HTMLInputElement
+              if (e.key === 'Enter' && input.value !== '') {
+                // The store validates the number and reports what's wrong with it
+                setCount(id, input.valueAsNumber)
+                input.value = ''
               }
             }}
           />
           <button
-            onClick={() => setCount(Math.floor(Math.random() * 1000))}
+            onClick={() => setCount(id, min + Math.floor(Math.random() * (Math.min(max, min + 999) - min + 1)))}
             className="bg-indigo-500 hover:bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200 transform active:scale-95"
           >
             Random
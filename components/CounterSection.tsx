@@ -1,56 +1,92 @@
 'use client';
 
-import useAppStore from '@/store/useAppStore';
-import { shallow } from 'zustand/shallow';
+import { useState } from 'react';
+import useAppStore, { useAppStorePick } from '@/store/useAppStore';
+import {
+  selectCounter,
+  selectCounterError,
+  selectCounterMax,
+  selectCounterTotal,
+  selectCounters
+} from '@/store/selectors';
 
-export default function CounterSection() {
-  const { count, increment, decrement, incrementBy, reset } = useAppStore(
-    (state) => ({
-      count: state.count,
-      increment: state.increment,
-      decrement: state.decrement,
-      incrementBy: state.incrementBy,
-      reset: state.reset
-    }),
-    shallow
+function CounterCard({ id }: { id: string }) {
+  const counter = useAppStore(selectCounter(id));
+  const error = useAppStore(selectCounterError(id));
+  const { increment, decrement, incrementBy, reset, renameCounter, removeCounter } = useAppStorePick(
+    'increment',
+    'decrement',
+    'incrementBy',
+    'reset',
+    'renameCounter',
+    'removeCounter'
   );
+  const [name, setName] = useState<string | null>(null);
+
+  if (!counter) return null;
+
+  const saveName = () => {
+    if (name !== null && name !== counter.name) renameCounter(id, name);
+    setName(null);
+  };
 
   return (
-    <div className="bg-white rounded-lg shadow-md p-6">
-      <h2 className="text-2xl font-bold text-gray-800 mb-4">Counter</h2>
-      
-      <div className="text-center mb-6">
-        <span className="text-5xl font-bold text-blue-600">{count}</span>
-        <p className="text-sm text-gray-500 mt-2">Value persisted to localStorage</p>
+    <div className="border rounded-lg p-4">
+      <div className="flex justify-between items-center mb-2">
+        {name === null ? (
+          <button onClick={() => setName(counter.name)} className="font-semibold text-gray-800 hover:underline" title="Rename">
+            {counter.name}
+          </button>
+        ) : (
+          <input
+            autoFocus
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onBlur={saveName}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') saveName();
+              if (event.key === 'Escape') setName(null);
+            }}
+            className="px-2 py-1 border rounded"
+          />
+        )}
+        <button onClick={() => removeCounter(id)} className="text-sm text-red-600 hover:underline">
+          Remove
+        </button>
       </div>
 
-      <div className="grid grid-cols-2 gap-3">
+      <div className="text-center mb-3">
+        <span className="text-4xl font-bold text-blue-600">{counter.count}</span>
+        {error && <p className="text-sm text-red-600 mt-1" role="alert">{error}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
         <button
-          onClick={increment}
+          onClick={() => increment(id)}
           className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 transition"
         >
           Increment
         </button>
         <button
-          onClick={decrement}
+          onClick={() => decrement(id)}
           className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition"
         >
           Decrement
         </button>
         <button
-          onClick={() => incrementBy(5)}
+          onClick={() => incrementBy(id, 5)}
           className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
         >
           +5
         </button>
         <button
-          onClick={() => incrementBy(10)}
+          onClick={() => incrementBy(id, 10)}
           className="px-4 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 transition"
         >
           +10
         </button>
         <button
-          onClick={reset}
+          onClick={() => reset(id)}
           className="col-span-2 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 transition"
         >
           Reset Counter
@@ -58,4 +94,48 @@ export default function CounterSection() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function CounterSection() {
+  const counters = useAppStore(selectCounters);
+  const total = useAppStore(selectCounterTotal);
+  const max = useAppStore(selectCounterMax);
+  const createCounter = useAppStore((state) => state.createCounter);
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    createCounter(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Counters</h2>
+
+      <form onSubmit={handleCreate} className="flex gap-2 mb-4">
+        <input
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          placeholder="New counter name"
+          className="flex-1 px-2 py-1 border rounded"
+        />
+        <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600">
+          Add Counter
+        </button>
+      </form>
+
+      {counters.length > 0 ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {counters.map(({ id }) => <CounterCard key={id} id={id} />)}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-4">No counters yet.</p>
+      )}
+
+      <p className="text-sm text-gray-500 mt-4">
+        Total: {total}{max !== null && ` | Highest: ${max}`} (persisted to localStorage)
+      </p>
+    </div>
+  );
+}
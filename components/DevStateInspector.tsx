@@ -0,0 +1,11 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// NODE_ENV is inlined at build time, so production bundles drop the import
+// and never contain the inspector
+const DevStateInspector = process.env.NODE_ENV === 'production'
+  ? () => null
+  : dynamic(() => import('./StateInspector'), { ssr: false });
+
+export default DevStateInspector;
@@ -1,34 +1,23 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import useAppStore from '@/store/useAppStore';
 import * as React from 'react';
+import { useHydrated, type HydratableStore } from '@/store/hydration';
 
 
 interface HydrationBoundaryProps {
+  store: HydratableStore;
   children: React.ReactNode;
   fallback?: React.ReactNode;
 }
 
 export default function HydrationBoundary({
+  store,
   children,
   fallback = <HydrationLoader />
 }: HydrationBoundaryProps) {
-  const [isHydrated, setIsHydrated] = useState(false);
-  const storeHydrated = useAppStore((state) => state.isHydrated);
+  const isHydrated = useHydrated(store);
 
-  useEffect(() => {
-    // Check if we're on the client and store is hydrated
-    const checkHydration = async () => {
-      // Small delay to ensure store has time to hydrate
-      await new Promise(resolve => setTimeout(resolve, 50));
-      setIsHydrated(true);
-    };
-
-    checkHydration();
-  }, []);
-
-  if (!isHydrated || !storeHydrated) {
+  if (!isHydrated) {
     return <>{fallback}</>;
   }
 
@@ -44,4 +33,4 @@ function HydrationLoader() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,58 +1,103 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import useAppStore from '@/store/useAppStore';
+import { selectCommentCount, selectCounterTotal } from '@/store/selectors';
+import { useHydrated } from '@/store/hydration';
+import { useAppStoreApi } from '@/store/AppStoreProvider';
+import { APP_STORAGE_KEY } from '@/store/storageKeys';
+import { APP_STORAGE_BACKEND } from '@/store/createAppStore';
+import { estimateStorageUsage, type StorageUsage } from '@/store/storage';
+import { usePersistPolicyStatus } from '@/store/persistPolicy';
+import ClearStorageButton from './ClearStorageButton';
+
+// Writes are debounced, so measure a little after the state settles
+const USAGE_REFRESH_DELAY = 1000;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
 
 export default function HydrationStatus() {
-  const [mounted, setMounted] = useState(false);
-  const isHydrated = useAppStore((state) => state.isHydrated);
-  const comments = useAppStore((state) => state.comments);
-  const count = useAppStore((state) => state.count);
-  const resetAll = useAppStore((state) => state.resetAll);
+  const store = useAppStoreApi();
+  const isHydrated = useHydrated(store);
+  const { counterCount, counterTotal, commentCount } = useAppStore(useShallow((state) => ({
+    counterCount: state.counterIds.length,
+    counterTotal: selectCounterTotal(state),
+    commentCount: selectCommentCount(state)
+  })));
+  const { expired, dropped, error } = usePersistPolicyStatus(APP_STORAGE_KEY);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
 
   useEffect(() => {
-    setMounted(true);
-  }, []);
+    if (!isHydrated) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const measure = () => {
+      estimateStorageUsage(APP_STORAGE_BACKEND, APP_STORAGE_KEY).then(setUsage, () => setUsage(null));
+    };
+    measure();
 
-  if (!mounted) {
+    const unsubscribe = store.subscribe(() => {
+      clearTimeout(timer);
+      timer = setTimeout(measure, USAGE_REFRESH_DELAY);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [store, isHydrated, dropped, error]);
+
+  // Persisted values differ from the server render until hydration settles
+  if (!isHydrated) {
     return (
       <div className="bg-yellow-100 rounded-lg p-4">
         <h3 className="font-semibold text-yellow-800">Hydration Status</h3>
-        <p className="text-yellow-700">Mounting...</p>
+        <p className="text-yellow-700">Store: ⏳ Hydrating...</p>
       </div>
     );
   }
 
   return (
-    <div className={`rounded-lg p-4 ${isHydrated ? 'bg-green-100' : 'bg-yellow-100'}`}>
+    <div className="bg-green-100 rounded-lg p-4">
       <div className="flex justify-between items-start">
         <div>
           <h3 className="font-semibold text-gray-800 mb-2">Hydration Status</h3>
           <div className="space-y-1 text-sm">
-            <p className={isHydrated ? 'text-green-700' : 'text-yellow-700'}>
-              Store: {isHydrated ? '✅ Hydrated' : '⏳ Hydrating...'}
-            </p>
+            <p className="text-green-700">Store: ✅ Hydrated</p>
             <p className="text-gray-600">
-              Persisted Count: {count}
+              Persisted Counters: {counterCount} (total {counterTotal})
             </p>
             <p className="text-gray-600">
-              Persisted Comments: {comments.length}
+              Persisted Comments: {commentCount}
             </p>
+            {usage && (
+              <p className="text-gray-600">
+                Storage: {formatBytes(usage.item)} for this app
+                {' '}({formatBytes(usage.used)}{usage.quota !== null && ` of ~${formatBytes(usage.quota)}`} used)
+              </p>
+            )}
+            {expired.length > 0 && (
+              <p className="text-gray-600">Expired on load: {expired.join(', ')}</p>
+            )}
+            {dropped.length > 0 && (
+              <p className="text-yellow-700" role="alert">
+                ⚠️ Storage is full: {dropped.join(', ')} not saved
+              </p>
+            )}
+            {error !== null && (
+              <p className="text-red-600" role="alert">
+                ❌ Saving failed: {error instanceof Error ? error.message : String(error)}
+              </p>
+            )}
             <p className="text-gray-500 text-xs mt-2">
               Data is saved to localStorage and restored on page refresh
             </p>
           </div>
         </div>
-        <button
-          onClick={() => {
-            resetAll();
-            window.localStorage.removeItem('app-storage');
-            window.location.reload();
-          }}
-          className="px-3 py-1 bg-red-500 text-white text-sm rounded hover:bg-red-600"
-        >
-          Clear Storage
-        </button>
+        <ClearStorageButton />
       </div>
     </div>
   );
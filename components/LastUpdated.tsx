@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import useAppStore from '@/store/useAppStore';
+
+// Often enough for a minute-resolution label
+const TICK_INTERVAL = 30 * 1000;
+
+function formatAge(lastFetchedAt: number, now: number): string {
+  const minutes = Math.floor((now - lastFetchedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours} h ago` : new Date(lastFetchedAt).toLocaleString();
+}
+
+export default function LastUpdated() {
+  const lastFetchedAt = useAppStore((state) => state.lastFetchedAt);
+  const revalidating = useAppStore((state) => state.revalidating);
+  // Starts unset so the server render and the first client render agree
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [lastFetchedAt]);
+
+  if (revalidating) {
+    return <span className="text-sm text-blue-500" aria-live="polite">Updating…</span>;
+  }
+  if (lastFetchedAt === null || now === null) return null;
+
+  return (
+    <span className="text-sm text-gray-500" title={new Date(lastFetchedAt).toLocaleString()}>
+      Last updated {formatAge(lastFetchedAt, Math.max(now, lastFetchedAt))}
+    </span>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { AppState } from '@/types/store';
+import useAppStore from '@/store/useAppStore';
+import { useAppStoreApi, useInspectorLog } from '@/store/AppStoreProvider';
+import { getHydrationError, useHydrated } from '@/store/hydration';
+import { downloadJson } from '@/store/backup';
+import { peekItem } from '@/store/storage';
+import type { MemorySink, RecordedActionEvent } from '@/store/actionLog';
+
+type Tab = 'state' | 'actions' | 'storage' | 'hydration';
+
+const TABS: Tab[] = ['state', 'actions', 'storage', 'hydration'];
+
+// Actions can't be shown, edited or serialized, so only data fields are
+function pickData(state: AppState): Partial<AppState> {
+  return Object.fromEntries(
+    Object.entries(state).filter(([, value]) => typeof value !== 'function')
+  ) as Partial<AppState>;
+}
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2) ?? 'undefined';
+
+function JsonTree({ name, value }: { name: string; value: unknown }) {
+  if (typeof value !== 'object' || value === null) {
+    return (
+      <div className="pl-4">
+        <span className="text-purple-700">{name}</span>: <span className="text-gray-800">{formatJson(value)}</span>
+      </div>
+    );
+  }
+
+  const entries = Object.entries(value);
+  return (
+    <details className="pl-4">
+      <summary className="cursor-pointer">
+        <span className="text-purple-700">{name}</span>{' '}
+        <span className="text-gray-400">{Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}</span>
+      </summary>
+      {entries.map(([key, child]) => <JsonTree key={key} name={key} value={child} />)}
+    </details>
+  );
+}
+
+function StateTab() {
+  const store = useAppStoreApi();
+  const state = useAppStore();
+  const [editing, setEditing] = useState<{ key: keyof AppState; text: string; error?: string } | null>(null);
+
+  const apply = () => {
+    if (!editing) return;
+    try {
+      store.setState({ [editing.key]: JSON.parse(editing.text) }, false, 'inspector/edit');
+      setEditing(null);
+    } catch (error) {
+      setEditing({ ...editing, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {Object.entries(pickData(state)).map(([key, value]) => (
+        <div key={key} className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            {editing?.key === key ? (
+              <div className="pl-4 space-y-1">
+                <span className="text-purple-700">{key}</span>
+                <textarea
+                  value={editing.text}
+                  onChange={(event) => setEditing({ ...editing, text: event.target.value, error: undefined })}
+                  rows={Math.min(10, editing.text.split('\n').length)}
+                  className="w-full border rounded px-1"
+                />
+                {editing.error && <p className="text-red-600">{editing.error}</p>}
+                <button onClick={apply} className="px-2 bg-blue-500 text-white rounded mr-1">Apply</button>
+                <button onClick={() => setEditing(null)} className="px-2 bg-gray-200 rounded">Cancel</button>
+              </div>
+            ) : (
+              <JsonTree name={key} value={value} />
+            )}
+          </div>
+          {editing?.key !== key && (
+            <button
+              onClick={() => setEditing({ key: key as keyof AppState, text: formatJson(value) })}
+              className="text-blue-600 hover:underline shrink-0"
+            >
+              Edit
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ActionsTab({ log }: { log: MemorySink<AppState> }) {
+  const store = useAppStoreApi();
+  const events = useSyncExternalStore(log.subscribe, () => log.events, () => log.events);
+  const [expanded, setExpanded] = useState<RecordedActionEvent<AppState> | null>(null);
+
+  const jumpTo = (event: RecordedActionEvent<AppState>) => {
+    if (event.snapshot) store.setState(pickData(event.snapshot), false, 'inspector/jump');
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between mb-2">
+        <span className="text-gray-500">{events.length} action(s), newest first</span>
+        <button onClick={log.clear} className="text-blue-600 hover:underline">Clear log</button>
+      </div>
+      <ul className="space-y-1">
+        {[...events].reverse().map((event, index) => (
+          <li key={`${event.timestamp}-${index}`} className="border-b pb-1">
+            <div className="flex justify-between gap-2">
+              <button onClick={() => setExpanded(expanded === event ? null : event)} className="text-left font-semibold">
+                {event.action}
+              </button>
+              <span className="text-gray-400 shrink-0">
+                {event.duration.toFixed(1)}ms
+                {event.elapsed !== null && ` (+${Math.round(event.elapsed)}ms)`}
+              </span>
+            </div>
+            <div className="text-gray-500">
+              {event.changedKeys.length > 0 ? event.changedKeys.join(', ') : 'no changes'}
+              {event.correlationId && <span className="ml-2 text-gray-400">{event.correlationId}</span>}
+            </div>
+            {expanded === event && (
+              <div className="mt-1">
+                <pre className="bg-gray-50 p-1 overflow-x-auto">{formatJson(event.diff)}</pre>
+                {event.snapshot && (
+                  <button onClick={() => jumpTo(event)} className="text-blue-600 hover:underline">
+                    Jump to state after this action
+                  </button>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function StorageTab() {
+  const store = useAppStoreApi();
+  const [payload, setPayload] = useState<string>('Loading...');
+
+  const read = useCallback(async () => {
+    const options = store.persist?.getOptions();
+    if (!options?.storage || !options.name) {
+      setPayload('No persisted storage');
+      return;
+    }
+    try {
+      // Read through persist's storage, so an encrypted payload shows decrypted,
+      // but peek, since getItem is meant for rehydration (it expires groups,
+      // returns writes that are still pending, ...)
+      const value = await peekItem(options.storage, options.name);
+      setPayload(value === null ? 'Nothing stored yet' : formatJson(value));
+    } catch (error) {
+      setPayload(`Failed to read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [store]);
+
+  useEffect(() => {
+    void read();
+  }, [read]);
+
+  return (
+    <div>
+      <button onClick={read} className="text-blue-600 hover:underline mb-2">Reload from storage</button>
+      <pre className="bg-gray-50 p-1 overflow-x-auto">{payload}</pre>
+    </div>
+  );
+}
+
+function HydrationTab() {
+  const store = useAppStoreApi();
+  const isHydrated = useHydrated(store);
+  const error = getHydrationError(store);
+  const options = store.persist?.getOptions();
+
+  return (
+    <div className="space-y-1">
+      <p>Status: {error !== undefined ? '❌ Failed' : isHydrated ? '✅ Hydrated' : '⏳ Hydrating...'}</p>
+      {error !== undefined && <p className="text-red-600">{error instanceof Error ? error.message : String(error)}</p>}
+      <p>Storage key: {options?.name ?? '—'}</p>
+      <p>Version: {options?.version ?? '—'}</p>
+      <button onClick={() => store.persist?.rehydrate()} className="text-blue-600 hover:underline">
+        Rehydrate from storage
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Overlay showing the live store, its action log, the persisted payload and
+ * hydration status, for machines without the Redux DevTools extension.
+ * Loaded through DevStateInspector so it never ships in production.
+ */
+export default function StateInspector() {
+  const store = useAppStoreApi();
+  const log = useInspectorLog();
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>('state');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const exportSnapshot = () => {
+    downloadJson({ exportedAt: new Date().toISOString(), state: pickData(store.getState()) }, `app-state-${Date.now()}.json`);
+  };
+
+  const importSnapshot = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { state } = JSON.parse(await file.text());
+      const current = pickData(store.getState());
+      // Only fields the store knows about, and never actions
+      const known = Object.fromEntries(Object.entries(state ?? {}).filter(([key]) => key in current));
+      store.setState(known, false, 'inspector/import');
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-50 px-3 py-2 bg-gray-800 text-white text-sm rounded-full shadow-lg"
+      >
+        🔍 Inspect
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[28rem] max-h-[70vh] flex flex-col bg-white border rounded-lg shadow-xl text-xs font-mono">
+      <div className="flex items-center justify-between border-b px-2 py-1">
+        <div className="space-x-1">
+          {TABS.map((name) => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`px-2 py-1 rounded capitalize ${tab === name ? 'bg-gray-800 text-white' : 'hover:bg-gray-100'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => setOpen(false)} className="px-2" aria-label="Close inspector">✕</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {tab === 'state' && <StateTab />}
+        {tab === 'actions' && (log ? <ActionsTab log={log} /> : <p>No action log for this store.</p>)}
+        {tab === 'storage' && <StorageTab />}
+        {tab === 'hydration' && <HydrationTab />}
+      </div>
+
+      <div className="border-t px-2 py-1 flex items-center gap-2">
+        <button onClick={exportSnapshot} className="text-blue-600 hover:underline">Export JSON</button>
+        <label className="text-blue-600 hover:underline cursor-pointer">
+          Import JSON
+          <input type="file" accept="application/json" onChange={importSnapshot} className="hidden" />
+        </label>
+        {importError && <span className="text-red-600 truncate">{importError}</span>}
+      </div>
+    </div>
+  );
+}
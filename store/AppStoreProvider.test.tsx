@@ -0,0 +1,89 @@
+import { StrictMode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import { AppStoreProvider, useAppStoreApi } from './AppStoreProvider';
+import useAppStore from './useAppStore';
+import { useHydrated } from './hydration';
+import { APP_STORAGE_KEY } from './storageKeys';
+import { PERSISTED_STATE_VERSION } from './migrations';
+import { createInitialCounters } from './slices/counterSlice';
+import { testComment } from './testing';
+
+// Lets a test read localStorage the way asynchronous backends (IndexedDB,
+// encryption) do: a task later
+const storageMode = vi.hoisted(() => ({ async: false }));
+
+vi.mock('./storage', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./storage')>();
+  return {
+    ...actual,
+    getStateStorage: (backend: Parameters<typeof actual.getStateStorage>[0]) => {
+      const storage = actual.getStateStorage(backend);
+      if (!storageMode.async) return storage;
+      return {
+        ...storage,
+        getItem: (name: string) => new Promise<string | null>((resolve) => {
+          setTimeout(() => resolve(storage.getItem(name) as string | null));
+        }),
+        setItem: (name: string, value: string) => storage.setItem(name, value),
+        removeItem: (name: string) => storage.removeItem(name)
+      };
+    }
+  };
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  window.localStorage.setItem(APP_STORAGE_KEY, JSON.stringify({
+    version: PERSISTED_STATE_VERSION,
+    state: { ...createInitialCounters(9), commentsById: {}, commentIds: [], outbox: [] }
+  }));
+});
+
+afterEach(() => {
+  storageMode.async = false;
+  window.localStorage.clear();
+});
+
+it('renders the server state first and the persisted state after mounting', async () => {
+  const renders: { count: number; hydrated: boolean }[] = [];
+  renderHook(() => {
+    const render = {
+      count: useAppStore((state) => state.counters.default.count),
+      hydrated: useHydrated(useAppStoreApi())
+    };
+    renders.push(render);
+    return render;
+  }, { wrapper: AppStoreProvider });
+
+  // What React compares against the server HTML
+  expect(renders[0]).toEqual({ count: 0, hydrated: false });
+  await waitFor(() => expect(renders[renders.length - 1]).toEqual({ count: 9, hydrated: true }));
+});
+
+it('hydrates once in Strict Mode while an asynchronous read is pending', async () => {
+  storageMode.async = true;
+  window.localStorage.setItem(APP_STORAGE_KEY, JSON.stringify({
+    version: PERSISTED_STATE_VERSION,
+    state: { commentsById: { 99: testComment(99) }, commentIds: [99], outbox: [] }
+  }));
+  const log = vi.mocked(console.log);
+
+  const { result } = renderHook(() => ({
+    commentIds: useAppStore((state) => state.commentIds),
+    hydrated: useHydrated(useAppStoreApi())
+  }), {
+    wrapper: ({ children }) => (
+      <StrictMode>
+        <AppStoreProvider initialState={{ commentsById: { 1: testComment(1) }, commentIds: [1] }}>
+          {children}
+        </AppStoreProvider>
+      </StrictMode>
+    )
+  });
+
+  await waitFor(() => expect(result.current.hydrated).toBe(true));
+  // The server's comments are newer than the stored ones
+  expect(result.current.commentIds).toEqual([1]);
+  expect(log.mock.calls.filter(([message]) => message === '🔄 Hydration started')).toHaveLength(1);
+});
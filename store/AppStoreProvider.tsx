@@ -0,0 +1,105 @@
+'use client';
+
+import { createContext, useContext, useEffect, useRef } from 'react';
+import type { AppState, PersistedState } from '@/types/store';
+import { createAppStore, disposeAppStore, getDefaultActionSinks, type AppStore } from './createAppStore';
+import { createMemorySink, type MemorySink } from './actionLog';
+import type { ApiClient } from './apiClient';
+import { syncAcrossTabs } from './crossTabSync';
+import { APP_STORAGE_KEY } from './storageKeys';
+import { awaitHydration } from './hydration';
+
+const AppStoreContext = createContext<AppStore | null>(null);
+const InspectorLogContext = createContext<MemorySink<AppState> | null>(null);
+
+interface AppStoreProviderProps {
+  children: React.ReactNode;
+  /** State prefetched by a server component, serialized into the page */
+  initialState?: Partial<PersistedState>;
+  /** Only settable from client components, since it can't be serialized */
+  apiClient?: ApiClient;
+}
+
+export function AppStoreProvider({ children, initialState, apiClient }: AppStoreProviderProps) {
+  // One store per provider instance: per request on the server, once in the browser
+  const storeRef = useRef<AppStore>();
+  // Feeds the state inspector, which only exists outside production
+  const inspectorLogRef = useRef<MemorySink<AppState> | null>(null);
+  if (!storeRef.current) {
+    if (process.env.NODE_ENV !== 'production') {
+      inspectorLogRef.current = createMemorySink({
+        limit: 200,
+        getSnapshot: () => storeRef.current!.getState()
+      });
+    }
+    storeRef.current = createAppStore({
+      initialState,
+      apiClient,
+      // Hydrated from an effect below, so the first client render shows the
+      // same (server) state as the HTML it hydrates
+      skipHydration: true,
+      ...(inspectorLogRef.current && {
+        actionSinks: [...getDefaultActionSinks(), inspectorLogRef.current]
+      })
+    });
+  }
+  const store = storeRef.current;
+  // Set when hydration starts rather than when it finishes, which may be
+  // after Strict Mode has run the effect below a second time
+  const hydrationStartedRef = useRef(false);
+
+  useEffect(() => {
+    // Once: a second hydration would read back what was stored before the
+    // server's state
+    if (hydrationStartedRef.current) return;
+    hydrationStartedRef.current = true;
+    void store.persist.rehydrate();
+  }, [store]);
+
+  // Writes still pending go out before the store is dropped
+  useEffect(() => () => disposeAppStore(store), [store]);
+
+  useEffect(() => syncAcrossTabs(store, {
+    name: APP_STORAGE_KEY,
+    fields: ['counters', 'counterIds', 'commentsById', 'commentIds', 'page', 'hasMore', 'total', 'lastFetchedAt', 'outbox'],
+    // Merged per counter and per comment, so concurrent edits to different ones all survive
+    collections: [
+      { byId: 'counters', ids: 'counterIds' },
+      { byId: 'commentsById', ids: 'commentIds' }
+    ],
+    policy: 'per-field'
+  }), [store]);
+
+  // Send comment changes queued while offline, both those restored from
+  // storage and those made since
+  useEffect(() => {
+    const replay = () => {
+      void store.getState().replayOutbox();
+    };
+
+    void awaitHydration(store).then(replay);
+    window.addEventListener('online', replay);
+    return () => window.removeEventListener('online', replay);
+  }, [store]);
+
+  return (
+    <AppStoreContext.Provider value={store}>
+      <InspectorLogContext.Provider value={inspectorLogRef.current}>
+        {children}
+      </InspectorLogContext.Provider>
+    </AppStoreContext.Provider>
+  );
+}
+
+export function useAppStoreApi(): AppStore {
+  const store = useContext(AppStoreContext);
+  if (!store) {
+    throw new Error('useAppStoreApi must be used within an AppStoreProvider');
+  }
+  return store;
+}
+
+/** The action log recorded for the state inspector; null in production */
+export function useInspectorLog(): MemorySink<AppState> | null {
+  return useContext(InspectorLogContext);
+}
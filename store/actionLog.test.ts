@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, expect, it } from 'vitest';
+import { createTestAppStore, jsonResponse, setUpTestAppStores, testComment } from './testing';
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+it('keeps overlapping flows of the same type apart', async () => {
+  const { store, actionLog } = createTestAppStore({
+    initialState: { commentsById: { 1: testComment(1), 2: testComment(2) }, commentIds: [1, 2] },
+    routes: [{
+      method: 'PUT',
+      path: /^\/comments\/\d+$/,
+      respond: async (request) => {
+        const body = await request.json();
+        // The first edit answers last
+        await new Promise((resolve) => setTimeout(resolve, body.id === 1 ? 30 : 0));
+        return jsonResponse(body);
+      }
+    }]
+  });
+
+  await Promise.all([
+    store.getState().editComment(1, { body: 'First' }),
+    store.getState().editComment(2, { body: 'Second' })
+  ]);
+
+  const events = actionLog.events.filter(({ type }) => type === 'editComment');
+  // In call order: comment 1, then comment 2
+  const [first, second] = events.filter(({ phase }) => phase === 'optimistic').map(({ correlationId }) => correlationId);
+  expect(first).not.toBe(second);
+
+  const successes = events.filter(({ phase }) => phase === 'success');
+  expect(successes.map(({ correlationId }) => correlationId)).toEqual([second, first]);
+  successes.forEach(({ elapsed }) => expect(elapsed).not.toBeNull());
+});
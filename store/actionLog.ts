@@ -0,0 +1,276 @@
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand/vanilla';
+
+export interface ActionEvent {
+  /** Full devtools action name, e.g. 'fetchComments/success' */
+  action: string;
+  /** The part before the phase, e.g. 'fetchComments' */
+  type: string;
+  /** The part after the last '/', if any, e.g. 'success' */
+  phase: string | null;
+  /** Top-level keys whose value changed */
+  changedKeys: string[];
+  diff: Record<string, { previous: unknown; next: unknown }>;
+  /** Time spent in `set`, including synchronous subscribers, in ms */
+  duration: number;
+  timestamp: number;
+  /** Shared by an async flow's start event and the event that ends it */
+  correlationId: string | null;
+  /** On the event ending an async flow: ms since it started */
+  elapsed: number | null;
+}
+
+export interface ActionLogSink {
+  write: (event: ActionEvent) => void;
+  /** Sends anything buffered right away */
+  flush?: () => void;
+}
+
+export interface ActionLogOptions {
+  sinks: ActionLogSink[];
+  /** Phases that open an async flow */
+  startPhases?: string[];
+  /** Phases that close the flow opened by the latest start of the same type and flow key */
+  endPhases?: string[];
+}
+
+/**
+ * A devtools action object naming which flow of its type it belongs to, so
+ * overlapping flows (e.g. edits of two comments) are told apart:
+ * `set(partial, false, { type: 'editComment/optimistic', flow: id })`.
+ */
+export interface FlowAction {
+  type: string;
+  flow: string | number;
+}
+
+type ActionLog = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+  initializer: StateCreator<T, Mps, Mcs>,
+  options: ActionLogOptions
+) => StateCreator<T, Mps, Mcs>;
+
+type ActionLogImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  options: ActionLogOptions
+) => StateCreator<T, [], []>;
+
+type NamedSet<T> = (partial: T | Partial<T> | ((state: T) => T | Partial<T>), replace?: boolean, action?: unknown) => void;
+
+function diffState(previous: object, next: object): ActionEvent['diff'] {
+  const diff: ActionEvent['diff'] = {};
+  const before = previous as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) => {
+    if (!Object.is(before[key], after[key])) {
+      diff[key] = { previous: before[key], next: after[key] };
+    }
+  });
+  return diff;
+}
+
+// Devtools accepts `{ type }` objects as well as plain names
+function toActionName(action: unknown): string {
+  if (typeof action === 'string') return action;
+  if (typeof action === 'object' && action !== null && typeof (action as { type?: unknown }).type === 'string') {
+    return (action as { type: string }).type;
+  }
+  return 'anonymous';
+}
+
+function toFlowKey(type: string, action: unknown): string {
+  const flow = typeof action === 'object' && action !== null ? (action as Partial<FlowAction>).flow : undefined;
+  return flow === undefined ? type : `${type}:${flow}`;
+}
+
+const actionLogImpl: ActionLogImpl = (initializer, {
+  sinks,
+  startPhases = ['start', 'optimistic'],
+  endPhases = ['success', 'error', 'rollback']
+}) => (set, get, api) => {
+  const namedSet = set as NamedSet<ReturnType<typeof get>>;
+  const openFlows = new Map<string, { id: string; startedAt: number }>();
+  let nextFlowId = 0;
+
+  const emit = (event: ActionEvent) => {
+    sinks.forEach((sink) => {
+      // Telemetry must never break the update that triggered it
+      try {
+        sink.write(event);
+      } catch (error) {
+        console.error('❌ Action log sink failed:', error);
+      }
+    });
+  };
+
+  const loggingSet: NamedSet<ReturnType<typeof get>> = (partial, replace, action) => {
+    const previous = get() as object;
+    const startedAt = performance.now();
+    namedSet(partial, replace, action);
+    const finishedAt = performance.now();
+
+    const name = toActionName(action);
+    const separator = name.lastIndexOf('/');
+    const type = separator === -1 ? name : name.slice(0, separator);
+    const phase = separator === -1 ? null : name.slice(separator + 1);
+
+    const flowKey = toFlowKey(type, action);
+    let correlationId: string | null = null;
+    let elapsed: number | null = null;
+    if (phase !== null && startPhases.includes(phase)) {
+      correlationId = `${type}#${++nextFlowId}`;
+      openFlows.set(flowKey, { id: correlationId, startedAt });
+    } else if (phase !== null) {
+      const flow = openFlows.get(flowKey);
+      if (flow) {
+        correlationId = flow.id;
+        elapsed = finishedAt - flow.startedAt;
+        if (endPhases.includes(phase)) openFlows.delete(flowKey);
+      }
+    }
+
+    const diff = diffState(previous, get() as object);
+    emit({
+      action: name,
+      type,
+      phase,
+      changedKeys: Object.keys(diff),
+      diff,
+      duration: finishedAt - startedAt,
+      timestamp: Date.now(),
+      correlationId,
+      elapsed
+    });
+  };
+
+  return initializer(loggingSet as typeof set, get, api);
+};
+
+/**
+ * Emits an ActionEvent to every sink for each `set` made by the wrapped
+ * slices, using the same action names Redux DevTools shows. Async flows
+ * named 'x/start' ... 'x/success' (or 'x/error') share a correlation id;
+ * flows of one type that can overlap pass a FlowAction to keep theirs apart.
+ */
+export const actionLog = actionLogImpl as unknown as ActionLog;
+
+export function createConsoleSink(): ActionLogSink {
+  return {
+    write: ({ action, changedKeys, duration, correlationId, elapsed }) => {
+      console.log(
+        `📋 ${action}`,
+        changedKeys.length > 0 ? changedKeys.join(', ') : '(no changes)',
+        `${duration.toFixed(1)}ms`,
+        ...(correlationId ? [correlationId] : []),
+        ...(elapsed !== null ? [`+${Math.round(elapsed)}ms since start`] : [])
+      );
+    }
+  };
+}
+
+export type RecordedActionEvent<S> = ActionEvent & {
+  /** The whole state right after the action, when the sink takes snapshots */
+  snapshot?: S;
+};
+
+export interface MemorySink<S = never> extends ActionLogSink {
+  /** Replaced (never mutated) on every write, so it can back useSyncExternalStore */
+  events: RecordedActionEvent<S>[];
+  subscribe: (listener: () => void) => () => void;
+  clear: () => void;
+}
+
+export interface MemorySinkOptions<S> {
+  /** Events kept, oldest dropped first */
+  limit?: number;
+  /** Called as each event is written, to keep the state it produced */
+  getSnapshot?: () => S;
+}
+
+/**
+ * Keeps the latest events in memory, e.g. to assert on in tests or to list
+ * in the state inspector.
+ */
+export function createMemorySink<S = never>({ limit = 500, getSnapshot }: MemorySinkOptions<S> = {}): MemorySink<S> {
+  const listeners = new Set<() => void>();
+  const update = (events: RecordedActionEvent<S>[]) => {
+    sink.events = events;
+    listeners.forEach((listener) => listener());
+  };
+
+  const sink: MemorySink<S> = {
+    events: [],
+    write: (event) => {
+      const recorded = getSnapshot ? { ...event, snapshot: getSnapshot() } : event;
+      update([...sink.events, recorded].slice(-limit));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    clear: () => update([])
+  };
+  return sink;
+}
+
+export interface BeaconSinkOptions {
+  url: string;
+  /** Events per request */
+  batchSize?: number;
+  /** Max time in ms an event waits before its batch is sent */
+  interval?: number;
+  /** Send state values along with changed keys; off since state holds user emails */
+  includeDiff?: boolean;
+}
+
+/**
+ * Batches events and POSTs them as JSON with `navigator.sendBeacon` (or a
+ * keepalive fetch), flushing whenever the page is hidden so the tail of a
+ * session isn't lost. Does nothing outside the browser.
+ */
+export function createBeaconSink({
+  url,
+  batchSize = 20,
+  interval = 5000,
+  includeDiff = false
+}: BeaconSinkOptions): ActionLogSink {
+  if (typeof window === 'undefined') return { write: () => {} };
+
+  let batch: unknown[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (batch.length === 0) return;
+
+    const body = JSON.stringify({ events: batch });
+    batch = [];
+    const queued = typeof navigator.sendBeacon === 'function'
+      && navigator.sendBeacon(url, new Blob([body], { type: 'application/json' }));
+    if (!queued) {
+      fetch(url, { method: 'POST', body, headers: { 'Content-Type': 'application/json' }, keepalive: true })
+        .catch((error) => console.warn('⚠️ Failed to send action events:', error));
+    }
+  };
+
+  window.addEventListener('pagehide', flush);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush();
+  });
+
+  return {
+    write: ({ diff, ...event }) => {
+      batch.push(includeDiff ? { ...event, diff } : event);
+      if (batch.length >= batchSize) {
+        flush();
+      } else {
+        timer ??= setTimeout(flush, interval);
+      }
+    },
+    flush
+  };
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpStatusError, NetworkError, ParseError, createApiClient } from './apiClient';
+import {
+  createFetchStub,
+  createTestAppStore,
+  jsonResponse,
+  networkFailure,
+  setUpTestAppStores,
+  testComment,
+  type FetchStubResponder
+} from './testing';
+
+const BASE_URL = 'https://api.test';
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+describe('interceptors', () => {
+  it('run on every request and response, in order', async () => {
+    const { fetch, requests } = createFetchStub([{ method: 'DELETE', path: '/comments/1', respond: () => new Response(null, { status: 401 }) }]);
+    const api = createApiClient({
+      baseUrl: BASE_URL,
+      fetch,
+      requestInterceptors: [
+        (request) => new Request(request, { headers: { Authorization: 'Bearer token' } }),
+        (request) => {
+          request.headers.set('X-Trace', request.headers.get('Authorization') ? 'authorized' : 'anonymous');
+          return request;
+        }
+      ],
+      // e.g. a session refresh would retry here; this one swaps in a success
+      responseInterceptors: [(response) => response.status === 401 ? new Response(null, { status: 204 }) : response]
+    });
+
+    await api.deleteComment(1);
+
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+    expect(requests[0].headers.get('X-Trace')).toBe('authorized');
+  });
+});
+
+describe('errors', () => {
+  const getWith = (respond: FetchStubResponder) =>
+    createApiClient({ baseUrl: BASE_URL, fetch: createFetchStub([{ path: /^\/comments/, respond }]).fetch }).getComments(1);
+
+  it('reports a failed status as an HttpStatusError', async () => {
+    const error = await getWith(() => new Response(null, { status: 500 })).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(HttpStatusError);
+    expect(error).toMatchObject({ kind: 'http', status: 500, url: `${BASE_URL}/comments?_page=1&_limit=10` });
+  });
+
+  it('reports a body that is not JSON as a ParseError', async () => {
+    await expect(getWith(() => new Response('<html>Maintenance</html>'))).rejects.toBeInstanceOf(ParseError);
+  });
+
+  it('reports JSON that is not a list of comments as a ParseError', async () => {
+    await expect(getWith(() => jsonResponse({ comments: [] }))).rejects.toThrow(/Expected a list of comments/);
+  });
+
+  it('wraps an unreachable network in a NetworkError', async () => {
+    await expect(getWith(networkFailure)).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe('validation', () => {
+  it('reports malformed rows and leaves them out of state', async () => {
+    const malformed = { id: 2, name: 'No email' };
+    const onInvalidRows = vi.fn();
+    const { fetch } = createFetchStub([
+      { path: /^\/comments/, respond: () => jsonResponse([testComment(1), malformed, testComment(3)]) }
+    ]);
+    const { store } = createTestAppStore({ apiClient: createApiClient({ baseUrl: BASE_URL, fetch, onInvalidRows }) });
+
+    await store.getState().fetchComments();
+
+    expect(onInvalidRows).toHaveBeenCalledWith([malformed], `${BASE_URL}/comments?_page=1&_limit=10`);
+    expect(store.getState().commentIds).toEqual([1, 3]);
+    expect(store.getState().error).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import type { Comment, CommentDraft } from '@/types/store';
+import { isComment, parseComments } from './commentSchema';
+import { isAbortError } from './retry';
+
+export const DEFAULT_API_BASE_URL = 'https://jsonplaceholder.typicode.com';
+export const COMMENTS_PAGE_SIZE = 10;
+
+export type ApiErrorKind = 'network' | 'http' | 'parse';
+
+export class ApiError extends Error {
+  constructor(readonly kind: ApiErrorKind, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(cause: unknown) {
+    super('network', 'Network request failed', cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class HttpStatusError extends ApiError {
+  constructor(readonly status: number, readonly url: string) {
+    super('http', `Request failed with HTTP ${status}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export class ParseError extends ApiError {
+  constructor(message: string, cause?: unknown) {
+    super('parse', message, cause);
+    this.name = 'ParseError';
+  }
+}
+
+// Network failures and server errors are worth retrying, client errors are not
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof NetworkError
+    || (error instanceof HttpStatusError && error.status >= 500);
+}
+
+export type RequestInterceptor = (request: Request) => Request | Promise<Request>;
+export type ResponseInterceptor = (response: Response, request: Request) => Response | Promise<Response>;
+
+export interface ApiClientOptions {
+  /** Defaults to NEXT_PUBLIC_API_BASE_URL, then jsonplaceholder */
+  baseUrl?: string;
+  /** Run in order before each request, e.g. to add auth headers */
+  requestInterceptors?: RequestInterceptor[];
+  /** Run in order on each response before its status is checked */
+  responseInterceptors?: ResponseInterceptor[];
+  /** Called with rows that failed validation; defaults to a console warning */
+  onInvalidRows?: (rows: unknown[], url: string) => void;
+  fetch?: typeof fetch;
+}
+
+export interface CommentsPageResult {
+  comments: Comment[];
+  /** From the `X-Total-Count` header; null when the API doesn't send it */
+  total: number | null;
+}
+
+export interface ApiClient {
+  /** `page` is 1-based */
+  getComments: (page: number, init?: RequestInit) => Promise<CommentsPageResult>;
+  /** Resolves with the comment as stored, including its server-assigned id */
+  createComment: (draft: CommentDraft, init?: RequestInit) => Promise<Comment>;
+  updateComment: (comment: Comment, init?: RequestInit) => Promise<Comment>;
+  deleteComment: (id: number, init?: RequestInit) => Promise<void>;
+}
+
+export function createApiClient({
+  baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL ?? DEFAULT_API_BASE_URL,
+  requestInterceptors = [],
+  responseInterceptors = [],
+  onInvalidRows = (rows, url) => console.warn(`⚠️ Dropped ${rows.length} malformed row(s) from ${url}:`, rows),
+  fetch: fetchImpl = (...args) => fetch(...args)
+}: ApiClientOptions = {}): ApiClient {
+  const request = async (path: string, init?: RequestInit): Promise<{ response: Response; url: string }> => {
+    let req = new Request(`${baseUrl.replace(/\/$/, '')}${path}`, init);
+    for (const intercept of requestInterceptors) {
+      req = await intercept(req);
+    }
+
+    let response: Response;
+    try {
+      // Next.js reads its caching options from `init`, never from the Request
+      response = await fetchImpl(req, init?.next && { next: init.next });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new NetworkError(error);
+    }
+
+    for (const intercept of responseInterceptors) {
+      response = await intercept(response, req);
+    }
+    if (!response.ok) throw new HttpStatusError(response.status, req.url);
+
+    return { response, url: req.url };
+  };
+
+  const readJson = async (response: Response, url: string): Promise<unknown> => {
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new ParseError(`Invalid JSON from ${url}`, error);
+    }
+  };
+
+  const sendJson = (path: string, method: string, body: unknown, init?: RequestInit) => request(path, {
+    ...init,
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const readComment = async (response: Response, url: string): Promise<Comment> => {
+    const body = await readJson(response, url);
+    if (!isComment(body)) {
+      onInvalidRows([body], url);
+      throw new ParseError(`Expected a comment from ${url}`);
+    }
+    return body;
+  };
+
+  return {
+    getComments: async (page, init) => {
+      const { response, url } = await request(`/comments?_page=${page}&_limit=${COMMENTS_PAGE_SIZE}`, init);
+      const body = await readJson(response, url);
+      if (!Array.isArray(body)) {
+        throw new ParseError(`Expected a list of comments from ${url}`);
+      }
+
+      const { comments, rejected } = parseComments(body);
+      if (rejected.length > 0) onInvalidRows(rejected, url);
+
+      const totalHeader = response.headers.get('X-Total-Count');
+      return {
+        comments,
+        total: totalHeader === null ? null : Number(totalHeader)
+      };
+    },
+
+    createComment: async (draft, init) => {
+      const { response, url } = await sendJson('/comments', 'POST', draft, init);
+      return readComment(response, url);
+    },
+
+    updateComment: async (comment, init) => {
+      const { response, url } = await sendJson(`/comments/${comment.id}`, 'PUT', comment, init);
+      return readComment(response, url);
+    },
+
+    deleteComment: async (id, init) => {
+      await request(`/comments/${id}`, { ...init, method: 'DELETE' });
+    }
+  };
+}
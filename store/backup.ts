@@ -0,0 +1,97 @@
+import type { PersistedState, PersistedStateBackup, QueuedCommentMutation } from '@/types/store';
+import { isRecord } from './commentSchema';
+import { enqueueMutation } from './commentOutbox';
+import { PERSISTED_STATE_VERSION, PersistedStateError, migratePersistedState, validatePersistedState } from './migrations';
+import { normalizeComments } from './slices/commentsSlice';
+
+export const BACKUP_FORMAT = 'app-storage-backup';
+
+export function createBackup(key: string, state: PersistedState): PersistedStateBackup {
+  return {
+    format: BACKUP_FORMAT,
+    key,
+    version: PERSISTED_STATE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state
+  };
+}
+
+/**
+ * Reads a parsed backup file into the current PersistedState shape, the way
+ * rehydration reads a stored payload: older versions are migrated, the
+ * result is validated and unusable entries are dropped. Anything that isn't
+ * a backup, or comes from a newer release, throws a PersistedStateError.
+ */
+export function restoreBackup(backup: unknown): PersistedState {
+  if (!isRecord(backup) || backup.format !== BACKUP_FORMAT) {
+    throw new PersistedStateError('Not a backup file', backup);
+  }
+  if (typeof backup.version !== 'number') {
+    throw new PersistedStateError('Backup has no version', backup);
+  }
+
+  return backup.version === PERSISTED_STATE_VERSION
+    ? validatePersistedState(backup.state)
+    : migratePersistedState(backup.state, backup.version);
+}
+
+/**
+ * Adds `imported` to `current`. Entries with the same id are taken from the
+ * backup; comments created offline in the other browser get fresh temporary
+ * ids so they can't collide with the ones created here.
+ */
+export function mergePersistedState(current: PersistedState, imported: PersistedState): PersistedState {
+  const offset = Math.min(0, ...current.commentIds, ...current.outbox.map(({ id }) => id));
+  const toLocalId = (id: number) => (id < 0 ? id + offset : id);
+
+  const comments = imported.commentIds.map((id) => ({ ...imported.commentsById[id], id: toLocalId(id) }));
+  const outbox = imported.outbox
+    .map((mutation): QueuedCommentMutation => ({ ...mutation, id: toLocalId(mutation.id) }))
+    .reduce(enqueueMutation, current.outbox);
+  const hasComments = current.commentIds.length > 0;
+
+  return {
+    counters: { ...current.counters, ...imported.counters },
+    counterIds: [...current.counterIds, ...imported.counterIds.filter((id) => !(id in current.counters))],
+    ...normalizeComments(comments, current),
+    // Paging describes what was fetched here, unless nothing was
+    page: hasComments ? current.page : imported.page,
+    hasMore: hasComments ? current.hasMore : imported.hasMore,
+    total: current.total ?? imported.total,
+    // The older of the two, so the merged list is revalidated soon enough
+    lastFetchedAt: current.lastFetchedAt === null || imported.lastFetchedAt === null
+      ? current.lastFetchedAt ?? imported.lastFetchedAt
+      : Math.min(current.lastFetchedAt, imported.lastFetchedAt),
+    outbox
+  };
+}
+
+// The browser fetches the blob after `click` returns, so revoking it right
+// away can cancel the download
+const REVOKE_DELAY = 10_000;
+
+/**
+ * Saves `value` as a pretty-printed JSON file. Throws before anything is
+ * downloaded if it can't be serialized.
+ */
+export function downloadJson(value: unknown, fileName: string): void {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
+
+export function downloadBackup(backup: PersistedStateBackup): void {
+  downloadJson(backup, `${backup.key}-backup-${backup.exportedAt.slice(0, 10)}.json`);
+}
+
+export async function readBackupFile(file: File): Promise<unknown> {
+  try {
+    return JSON.parse(await file.text());
+  } catch (error) {
+    throw new PersistedStateError(`${file.name} is not valid JSON`, error);
+  }
+}
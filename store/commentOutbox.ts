@@ -0,0 +1,92 @@
+import type { Comment, CommentMutationsState, NormalizedComments, QueuedCommentMutation } from '@/types/store';
+
+/**
+ * Adds a mutation to the offline queue, folding it into what is already
+ * queued for the same comment: edits to a comment created offline update its
+ * create entry, consecutive edits merge, and deleting a comment that never
+ * reached the server drops it from the queue altogether.
+ */
+export function enqueueMutation(
+  outbox: QueuedCommentMutation[],
+  mutation: QueuedCommentMutation
+): QueuedCommentMutation[] {
+  const queued = outbox.find(({ id }) => id === mutation.id);
+  const others = outbox.filter(({ id }) => id !== mutation.id);
+
+  if (!queued || mutation.type === 'create') return [...outbox, mutation];
+
+  if (queued.type === 'create') {
+    return mutation.type === 'delete'
+      ? others
+      : outbox.map((entry) => entry === queued
+        ? { ...queued, draft: { ...queued.draft, ...mutation.changes } }
+        : entry);
+  }
+
+  if (queued.type === 'update' && mutation.type === 'update') {
+    return outbox.map((entry) => entry === queued
+      ? { ...queued, changes: { ...queued.changes, ...mutation.changes } }
+      : entry);
+  }
+
+  // A delete replaces queued edits, but rolls back to the comment as it was before them
+  return [...others, { ...mutation, previous: queued.previous }];
+}
+
+/**
+ * Inserts a comment into a normalized collection, keeping ids ascending
+ * where they already are (the order the API pages them in).
+ */
+export function insertComment(
+  { commentsById, commentIds }: NormalizedComments,
+  comment: Comment
+): NormalizedComments {
+  if (comment.id in commentsById) {
+    return { commentsById: { ...commentsById, [comment.id]: comment }, commentIds };
+  }
+
+  const index = comment.id < 0 ? -1 : commentIds.findIndex((id) => id > comment.id);
+  const nextIds = [...commentIds];
+  nextIds.splice(index === -1 ? nextIds.length : index, 0, comment.id);
+  return { commentsById: { ...commentsById, [comment.id]: comment }, commentIds: nextIds };
+}
+
+export function removeComment({ commentsById, commentIds }: NormalizedComments, id: number): NormalizedComments {
+  const nextById = { ...commentsById };
+  delete nextById[id];
+  return { commentsById: nextById, commentIds: commentIds.filter((commentId) => commentId !== id) };
+}
+
+/**
+ * Re-applies queued mutations on top of freshly fetched comments, so that a
+ * refetch doesn't undo changes that are still waiting to be sent.
+ */
+export function applyOutbox(normalized: NormalizedComments, outbox: QueuedCommentMutation[]): NormalizedComments {
+  return outbox.reduce((collection, mutation) => {
+    switch (mutation.type) {
+      case 'create':
+        return insertComment(collection, { ...mutation.draft, id: mutation.id });
+      case 'update': {
+        const current = collection.commentsById[mutation.id];
+        return current ? insertComment(collection, { ...current, ...mutation.changes }) : collection;
+      }
+      case 'delete':
+        return removeComment(collection, mutation.id);
+    }
+  }, normalized);
+}
+
+/**
+ * Keeps the local copy of every comment with a change still on its way to
+ * the server (in flight, or queued behind one), which a refetch that
+ * started before the server had it doesn't include yet.
+ */
+export function applyUnsynced(
+  normalized: NormalizedComments,
+  { commentsById, commentSync }: Pick<NormalizedComments, 'commentsById'> & Pick<CommentMutationsState, 'commentSync'>
+): NormalizedComments {
+  return Object.keys(commentSync).map(Number).reduce((collection, id) => {
+    if (commentSync[id].state === 'failed') return collection;
+    return id in commentsById ? insertComment(collection, commentsById[id]) : removeComment(collection, id);
+  }, normalized);
+}
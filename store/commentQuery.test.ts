@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { CommentQuery } from '@/types/store';
+import { DEFAULT_COMMENT_QUERY, parseCommentQuery, queryComments, toSearchParams } from './commentQuery';
+import { testComment } from './testing';
+
+const query = (changes: Partial<CommentQuery>): CommentQuery => ({ ...DEFAULT_COMMENT_QUERY, ...changes });
+
+describe('URL params', () => {
+  it('round-trips a query through the search params', () => {
+    const filtered = query({ search: 'lorem ipsum', postId: 3, emailDomain: 'example.com', sortBy: 'length', sortDirection: 'desc' });
+
+    expect(parseCommentQuery(toSearchParams(filtered))).toEqual(filtered);
+  });
+
+  it('leaves defaults out and keeps unrelated params', () => {
+    const params = toSearchParams(query({ postId: 2 }), new URLSearchParams('tab=comments&q=old'));
+
+    expect(params.toString()).toBe('tab=comments&post=2');
+    expect(toSearchParams(DEFAULT_COMMENT_QUERY).toString()).toBe('');
+  });
+
+  it('falls back to the defaults for unusable values', () => {
+    expect(parseCommentQuery(new URLSearchParams('post=-1&sort=date&dir=up&domain='))).toEqual(DEFAULT_COMMENT_QUERY);
+    expect(parseCommentQuery(new URLSearchParams('post=1.5&domain=Example.COM')))
+      .toEqual(query({ emailDomain: 'example.com' }));
+  });
+});
+
+describe('queryComments', () => {
+  const comments = [
+    testComment(1, { postId: 1, name: 'Beta', body: 'Quite a long body', email: 'ann@example.com' }),
+    testComment(2, { postId: 2, name: 'alpha', body: 'Short', email: 'bob@other.org' }),
+    testComment(3, { postId: 1, name: 'Gamma', body: 'Medium body', email: 'cy@Example.com' })
+  ];
+  const ids = (result: typeof comments) => result.map(({ id }) => id);
+
+  it('requires every search term, case-insensitively, in name, body or email', () => {
+    expect(ids(queryComments(comments, query({ search: 'BODY long' })))).toEqual([1]);
+    expect(ids(queryComments(comments, query({ search: 'other.org' })))).toEqual([2]);
+    expect(ids(queryComments(comments, query({ search: '  ' })))).toEqual([1, 2, 3]);
+  });
+
+  it('filters by post and email domain', () => {
+    expect(ids(queryComments(comments, query({ postId: 1 })))).toEqual([1, 3]);
+    expect(ids(queryComments(comments, query({ emailDomain: 'example.com' })))).toEqual([1, 3]);
+    expect(ids(queryComments(comments, query({ postId: 2, emailDomain: 'example.com' })))).toEqual([]);
+  });
+
+  it('sorts by id, name or body length in either direction', () => {
+    expect(ids(queryComments(comments, query({ sortDirection: 'desc' })))).toEqual([3, 2, 1]);
+    expect(ids(queryComments(comments, query({ sortBy: 'name' })))).toEqual([2, 1, 3]);
+    expect(ids(queryComments(comments, query({ sortBy: 'length', sortDirection: 'desc' })))).toEqual([1, 3, 2]);
+  });
+
+  it('leaves the list it was given in order', () => {
+    queryComments(comments, query({ sortDirection: 'desc' }));
+
+    expect(ids(comments)).toEqual([1, 2, 3]);
+  });
+});
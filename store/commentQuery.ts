@@ -0,0 +1,83 @@
+import type { Comment, CommentQuery, CommentSortKey } from '@/types/store';
+
+export const DEFAULT_COMMENT_QUERY: CommentQuery = {
+  search: '',
+  postId: null,
+  emailDomain: null,
+  sortBy: 'id',
+  sortDirection: 'asc'
+};
+
+const SORT_KEYS: CommentSortKey[] = ['id', 'name', 'length'];
+
+// URL parameter names; kept short since filtered views are meant to be shared
+const PARAMS = {
+  search: 'q',
+  postId: 'post',
+  emailDomain: 'domain',
+  sortBy: 'sort',
+  sortDirection: 'dir'
+} as const;
+
+export function getEmailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+/**
+ * Reads a query from URL search params. Missing or unusable values fall
+ * back to the defaults, so any hand-edited URL still renders.
+ */
+export function parseCommentQuery(params: URLSearchParams): CommentQuery {
+  const postId = Number(params.get(PARAMS.postId));
+  const sortBy = params.get(PARAMS.sortBy) as CommentSortKey;
+
+  return {
+    search: params.get(PARAMS.search) ?? DEFAULT_COMMENT_QUERY.search,
+    postId: Number.isInteger(postId) && postId > 0 ? postId : DEFAULT_COMMENT_QUERY.postId,
+    emailDomain: params.get(PARAMS.emailDomain)?.toLowerCase() || DEFAULT_COMMENT_QUERY.emailDomain,
+    sortBy: SORT_KEYS.includes(sortBy) ? sortBy : DEFAULT_COMMENT_QUERY.sortBy,
+    sortDirection: params.get(PARAMS.sortDirection) === 'desc' ? 'desc' : DEFAULT_COMMENT_QUERY.sortDirection
+  };
+}
+
+/**
+ * Writes `query` into a copy of `params`, leaving out values at their
+ * default and any unrelated params untouched.
+ */
+export function toSearchParams(query: CommentQuery, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params);
+  (Object.keys(PARAMS) as (keyof CommentQuery)[]).forEach((key) => {
+    const value = query[key];
+    if (value === DEFAULT_COMMENT_QUERY[key] || value === '') {
+      next.delete(PARAMS[key]);
+    } else {
+      next.set(PARAMS[key], String(value));
+    }
+  });
+  return next;
+}
+
+const compareBy: Record<CommentSortKey, (a: Comment, b: Comment) => number> = {
+  id: (a, b) => a.id - b.id,
+  name: (a, b) => a.name.localeCompare(b.name),
+  length: (a, b) => a.body.length - b.body.length
+};
+
+/**
+ * Applies search, filters and sorting. Every whitespace-separated search
+ * term has to appear (case-insensitively) in the name, body or email.
+ */
+export function queryComments(comments: Comment[], { search, postId, emailDomain, sortBy, sortDirection }: CommentQuery): Comment[] {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matching = comments.filter((comment) => {
+    if (postId !== null && comment.postId !== postId) return false;
+    if (emailDomain !== null && getEmailDomain(comment.email) !== emailDomain) return false;
+
+    const text = `${comment.name}\n${comment.body}\n${comment.email}`.toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+
+  const direction = sortDirection === 'asc' ? 1 : -1;
+  return matching.sort((a, b) => direction * compareBy[sortBy](a, b));
+}
@@ -0,0 +1,56 @@
+import type { Comment, QueuedCommentMutation } from '@/types/store';
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isComment(value: unknown): value is Comment {
+  return isRecord(value)
+    && typeof value.postId === 'number'
+    && typeof value.id === 'number'
+    && typeof value.name === 'string'
+    && typeof value.email === 'string'
+    && typeof value.body === 'string';
+}
+
+function isCommentChanges(value: unknown): boolean {
+  return isRecord(value)
+    && ['name', 'email', 'body'].every((key) => value[key] === undefined || typeof value[key] === 'string');
+}
+
+// Validates outbox entries read back from storage
+export function isQueuedCommentMutation(value: unknown): value is QueuedCommentMutation {
+  if (!isRecord(value) || typeof value.id !== 'number') return false;
+
+  switch (value.type) {
+    case 'create':
+      return isComment({ ...(isRecord(value.draft) ? value.draft : {}), id: value.id });
+    case 'update':
+      return isCommentChanges(value.changes) && isComment(value.previous);
+    case 'delete':
+      return isComment(value.previous);
+    default:
+      return false;
+  }
+}
+
+export interface ParsedComments {
+  comments: Comment[];
+  /** Rows that don't match the Comment shape, kept for reporting */
+  rejected: unknown[];
+}
+
+export function parseComments(rows: unknown[]): ParsedComments {
+  const comments: Comment[] = [];
+  const rejected: unknown[] = [];
+
+  rows.forEach((row) => {
+    if (isComment(row)) {
+      comments.push(row);
+    } else {
+      rejected.push(row);
+    }
+  });
+
+  return { comments, rejected };
+}
@@ -0,0 +1,61 @@
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+
+type Mutators = [StoreMutatorIdentifier, unknown][];
+
+// Keys declared by more than one slice, or never when the slices are disjoint
+type OverlappingKeys<Slices extends unknown[], Seen = {}> =
+  Slices extends [infer Head, ...infer Rest]
+    ? [keyof Head & keyof Seen] extends [never]
+      ? OverlappingKeys<Rest, Seen & Head>
+      : keyof Head & keyof Seen
+    : never;
+
+type MergeSlices<Slices extends unknown[]> =
+  Slices extends [infer Head, ...infer Rest] ? Head & MergeSlices<Rest> : unknown;
+
+type SliceCreators<T, Mis extends Mutators, Slices extends unknown[]> = {
+  [K in keyof Slices]: StateCreator<T, Mis, [], Slices[K]>
+};
+
+export interface SliceKeyCollision<Keys> {
+  error: 'composeSlices: more than one slice defines the same key';
+  keys: Keys;
+}
+
+/**
+ * Combines slice creators into a single state creator for `create()`.
+ *
+ * Slices that declare the same key make the result a `SliceKeyCollision`,
+ * which fails to type-check where the store is created. Outside production
+ * the same check runs against the objects the slices actually return.
+ */
+export function composeSlices<
+  T,
+  Mis extends Mutators,
+  Slices extends unknown[]
+>(
+  ...creators: SliceCreators<T, Mis, Slices>
+): [OverlappingKeys<Slices>] extends [never]
+  ? StateCreator<T, Mis, [], MergeSlices<Slices>>
+  : SliceKeyCollision<OverlappingKeys<Slices>> {
+  const composed: StateCreator<T, Mis, [], Record<string, unknown>> = (...args) =>
+    (creators as StateCreator<T, Mis, [], object>[]).reduce<Record<string, unknown>>(
+      (state, createSlice) => {
+        const slice = createSlice(...args);
+
+        if (process.env.NODE_ENV !== 'production') {
+          const duplicates = Object.keys(slice).filter((key) => key in state);
+          if (duplicates.length > 0) {
+            throw new Error(
+              `composeSlices: key(s) ${duplicates.map((key) => `"${key}"`).join(', ')} are defined by more than one slice`
+            );
+          }
+        }
+
+        return { ...state, ...slice };
+      },
+      {}
+    );
+
+  return composed as never;
+}
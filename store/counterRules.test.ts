@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { CounterConstraints } from '@/types/store';
+import { DEFAULT_COUNTER_CONSTRAINTS, applyOverflow, checkCountChange, checkCountValue, normalizeCount } from './counterRules';
+
+const constraints = (changes: Partial<CounterConstraints>): CounterConstraints =>
+  ({ ...DEFAULT_COUNTER_CONSTRAINTS, min: 0, max: 10, ...changes });
+
+describe('applyOverflow', () => {
+  it('leaves values in range alone', () => {
+    expect(applyOverflow(10, constraints({ overflow: 'wrap' }))).toBe(10);
+  });
+
+  it('clamps to the nearest bound', () => {
+    expect(applyOverflow(12, constraints({ overflow: 'clamp' }))).toBe(10);
+    expect(applyOverflow(-3, constraints({ overflow: 'clamp' }))).toBe(0);
+  });
+
+  it('wraps integers around to the other end, both ends included', () => {
+    expect(applyOverflow(11, constraints({ overflow: 'wrap' }))).toBe(0);
+    expect(applyOverflow(-1, constraints({ overflow: 'wrap' }))).toBe(10);
+    expect(applyOverflow(25, constraints({ overflow: 'wrap' }))).toBe(3);
+  });
+
+  it('wraps decimals over the width of the range', () => {
+    expect(applyOverflow(10.5, constraints({ overflow: 'wrap', integerOnly: false }))).toBe(0.5);
+  });
+});
+
+describe('checkCountChange', () => {
+  it('applies the overflow policy to the new count', () => {
+    expect(checkCountChange(9, 5, constraints({ overflow: 'clamp' }))).toEqual({ ok: true, value: 10 });
+    expect(checkCountChange(9, 5, constraints({ overflow: 'wrap' }))).toEqual({ ok: true, value: 3 });
+  });
+
+  it('rejects amounts that are not whole numbers', () => {
+    expect(checkCountChange(0, 1.5, constraints({}))).toEqual({ ok: false, error: 'Only whole numbers are allowed, got 1.5' });
+    expect(checkCountChange(0, NaN, constraints({}))).toMatchObject({ ok: false });
+    expect(checkCountChange(0, 1.5, constraints({ integerOnly: false }))).toEqual({ ok: true, value: 1.5 });
+  });
+});
+
+describe('checkCountValue', () => {
+  it('rejects values out of range rather than adjusting them', () => {
+    expect(checkCountValue(11, constraints({ overflow: 'wrap' })))
+      .toEqual({ ok: false, error: 'Count must be between 0 and 10, got 11' });
+    expect(checkCountValue(10, constraints({}))).toEqual({ ok: true, value: 10 });
+  });
+
+  it('rejects non-integers and values that are not numbers', () => {
+    expect(checkCountValue(2.5, constraints({}))).toMatchObject({ ok: false });
+    expect(checkCountValue(Infinity, constraints({}))).toEqual({ ok: false, error: 'Infinity is not a number' });
+  });
+});
+
+describe('normalizeCount', () => {
+  it('rounds and clamps, whatever the overflow policy', () => {
+    expect(normalizeCount(4.6, constraints({}))).toBe(5);
+    expect(normalizeCount(50, constraints({ overflow: 'wrap' }))).toBe(10);
+  });
+
+  it('falls back to the minimum for values that are not numbers', () => {
+    expect(normalizeCount(NaN, constraints({ min: 2 }))).toBe(2);
+  });
+});
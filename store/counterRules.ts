@@ -0,0 +1,68 @@
+import type { CounterConstraints } from '@/types/store';
+
+export const DEFAULT_COUNTER_CONSTRAINTS: CounterConstraints = {
+  min: 0,
+  max: 10_000,
+  step: 1,
+  integerOnly: true,
+  overflow: 'clamp'
+};
+
+export type CountCheck =
+  | { ok: true; value: number }
+  | { ok: false; error: string };
+
+/**
+ * Brings a value that left the range back into it, by clamping to the
+ * nearest bound or wrapping around to the other end.
+ */
+export function applyOverflow(value: number, { min, max, integerOnly, overflow }: CounterConstraints): number {
+  if (value >= min && value <= max) return value;
+  if (overflow === 'clamp') return Math.min(max, Math.max(min, value));
+
+  // Integer ranges include both ends, so max + 1 wraps to min
+  const span = max - min + (integerOnly ? 1 : 0);
+  if (span <= 0) return min;
+  return min + ((((value - min) % span) + span) % span);
+}
+
+/**
+ * Result of moving the count by `amount` (increment, decrement, incrementBy).
+ * Leaving the range is expected here and handled by the overflow policy.
+ */
+export function checkCountChange(count: number, amount: number, constraints: CounterConstraints): CountCheck {
+  if (!Number.isFinite(amount)) {
+    return { ok: false, error: `${amount} is not a number` };
+  }
+  if (constraints.integerOnly && !Number.isInteger(amount)) {
+    return { ok: false, error: `Only whole numbers are allowed, got ${amount}` };
+  }
+  return { ok: true, value: applyOverflow(count + amount, constraints) };
+}
+
+/**
+ * Result of setting the count to an explicit `value`. Out-of-range values are
+ * rejected rather than adjusted, since the user asked for that exact number.
+ */
+export function checkCountValue(value: number, constraints: CounterConstraints): CountCheck {
+  const { min, max, integerOnly } = constraints;
+  if (!Number.isFinite(value)) {
+    return { ok: false, error: `${value} is not a number` };
+  }
+  if (integerOnly && !Number.isInteger(value)) {
+    return { ok: false, error: `Only whole numbers are allowed, got ${value}` };
+  }
+  if (value < min || value > max) {
+    return { ok: false, error: `Count must be between ${min} and ${max}, got ${value}` };
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Coerces a count that didn't go through the actions (e.g. one read back
+ * from storage under older or different constraints) into a valid one.
+ */
+export function normalizeCount(value: number, constraints: CounterConstraints): number {
+  const rounded = constraints.integerOnly ? Math.round(value) : value;
+  return applyOverflow(Number.isFinite(rounded) ? rounded : constraints.min, { ...constraints, overflow: 'clamp' });
+}
@@ -0,0 +1,292 @@
+import { createStore } from 'zustand/vanilla';
+import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware';
+import { devtools } from 'zustand/middleware';
+import type {
+  AppHistorySnapshot,
+  AppMiddlewares,
+  AppSliceCreator,
+  AppState,
+  CounterConstraints,
+  PersistedState
+} from '@/types/store';
+import type { StateCreator } from 'zustand';
+import { composeSlices } from './composeSlices';
+import { temporal } from './temporal';
+import { actionLog, createBeaconSink, createConsoleSink, type ActionLogSink } from './actionLog';
+import { applyOutbox } from './commentOutbox';
+import { createApiClient, type ApiClient } from './apiClient';
+import { APP_STORAGE_KEY, claimStorageKey } from './storageKeys';
+import { trackHydration } from './hydration';
+import { getStateStorage, type StorageBackend } from './storage';
+import { createScheduledStorage, type ScheduledPersistStorage } from './persistScheduler';
+import { createPolicyStorage, getPersistPolicyStatus, isQuotaExceededError, type PersistPolicies } from './persistPolicy';
+import { createSecureJSONStorage, parseKeyring } from './secureStorage';
+import { PERSISTED_STATE_VERSION, createPersistedStateRestorer, getQuarantineKey } from './migrations';
+import { resetPersistedStore } from './persistReset';
+import { createCounterSlice, createInitialCounters, getInitialCount, initialCounterState } from './slices/counterSlice';
+import { DEFAULT_COUNTER_CONSTRAINTS, normalizeCount } from './counterRules';
+import { createCommentsSlice, initialCommentsState } from './slices/commentsSlice';
+import { createCommentMutationsSlice, initialCommentMutationsState } from './slices/commentMutationsSlice';
+import { createCommentQuerySlice } from './slices/commentQuerySlice';
+import { createBackupSlice } from './slices/backupSlice';
+
+// Any StorageBackend works here, including the asynchronous IndexedDB one
+export const APP_STORAGE_BACKEND: StorageBackend = 'localStorage';
+const getAppStorage = () => getStateStorage(APP_STORAGE_BACKEND);
+
+// Opt-in encryption of the persisted payload (comments carry user emails).
+// Format: "<id>:<base64 AES key>" pairs separated by commas, newest first.
+// Like every NEXT_PUBLIC_ variable these keys ship in the client bundle, so
+// this only keeps the data unreadable at rest; it is obfuscation, not secrecy.
+const PERSIST_ENCRYPTION_KEYS = process.env.NEXT_PUBLIC_PERSIST_ENCRYPTION_KEYS;
+
+// Where action events are POSTed in batches; unset disables the beacon
+const ANALYTICS_URL = process.env.NEXT_PUBLIC_ANALYTICS_URL;
+
+// Shared by every store: a beacon sink listens to the page and keeps a
+// flush timer for as long as the page lives, so one per store would pile up
+let beaconSink: ActionLogSink | undefined;
+
+export function getDefaultActionSinks(): ActionLogSink[] {
+  if (ANALYTICS_URL) beaconSink ??= createBeaconSink({ url: ANALYTICS_URL });
+  return [
+    ...(process.env.NODE_ENV !== 'production' ? [createConsoleSink()] : []),
+    ...(beaconSink ? [beaconSink] : [])
+  ];
+}
+
+// How long each part of the persisted state is kept. Comments can always be
+// refetched, so they expire and are the first to go when storage is full;
+// counters and unsent changes are the user's own and persist indefinitely.
+const PERSIST_POLICIES: PersistPolicies<PersistedState> = {
+  comments: {
+    fields: ['commentsById', 'commentIds', 'page', 'hasMore', 'total', 'lastFetchedAt'],
+    ttl: 24 * 60 * 60 * 1000
+  },
+  counters: { fields: ['counters', 'counterIds'] },
+  outbox: { fields: ['outbox'] }
+};
+
+// Actions that undo/redo can step back over; fetches and comment
+// mutations are left out since undoing them wouldn't undo the request
+const UNDOABLE_ACTIONS = [
+  'createCounter',
+  'renameCounter',
+  'removeCounter',
+  'increment',
+  'decrement',
+  'incrementBy',
+  'setCount',
+  'resetCounter',
+  'resetAll',
+  'clearComments',
+  'importBackup'
+];
+
+const selectHistorySnapshot = (state: AppState): AppHistorySnapshot => ({
+  counters: state.counters,
+  counterIds: state.counterIds,
+  commentsById: state.commentsById,
+  commentIds: state.commentIds,
+  page: state.page,
+  hasMore: state.hasMore,
+  total: state.total,
+  lastFetchedAt: state.lastFetchedAt
+});
+
+const selectPersistedState = (state: AppState): PersistedState => ({
+  ...selectHistorySnapshot(state),
+  outbox: state.outbox
+});
+
+// Derived values such as the old `extractValues` summary live in ./selectors
+// What every slice starts with, leaving out any state handed over from the server
+const createDefaultState = (counterConstraints: AppState['counterConstraints']) => ({
+  ...initialCounterState,
+  ...createInitialCounters(getInitialCount(counterConstraints)),
+  ...initialCommentsState,
+  ...initialCommentMutationsState
+});
+
+const createAppSlice: AppSliceCreator<Pick<AppState, 'resetAll'>> = (set, get) => ({
+  resetAll: () => set(createDefaultState(get().counterConstraints), false, 'resetAll')
+});
+
+export interface CreateAppStoreOptions {
+  /** State handed over from the server, e.g. prefetched comments */
+  initialState?: Partial<PersistedState>;
+  /** Defaults to a client configured from the environment */
+  apiClient?: ApiClient;
+  /** Overrides for the counter's bounds, step and overflow policy */
+  counterConstraints?: Partial<CounterConstraints>;
+  /** Where state is persisted; defaults to APP_STORAGE_BACKEND */
+  getStorage?: () => StateStorage;
+  /** Receive an event per action; defaults to the console in development plus the analytics beacon */
+  actionSinks?: ActionLogSink[];
+  /**
+   * Leave storage unread until `store.persist.rehydrate()` is called. Reads
+   * from synchronous storage otherwise happen inside `createStore`, i.e.
+   * during the first client render, which then no longer matches the
+   * server HTML.
+   */
+  skipHydration?: boolean;
+}
+
+/**
+ * Creates an independent app store. On the server this runs once per request
+ * (see AppStoreProvider), so state never leaks between requests.
+ *
+ * `initialState` takes precedence over what is persisted in storage when the
+ * store first hydrates; persisted values only fill in the fields the server
+ * did not provide.
+ */
+export function createAppStore({
+  initialState = {},
+  apiClient = createApiClient(),
+  counterConstraints: constraintOverrides,
+  getStorage = getAppStorage,
+  actionSinks = getDefaultActionSinks(),
+  skipHydration = false
+}: CreateAppStoreOptions = {}) {
+  const counterConstraints = { ...DEFAULT_COUNTER_CONSTRAINTS, ...constraintOverrides };
+  const createSlices: StateCreator<AppState, AppMiddlewares> = composeSlices(
+    createCounterSlice(counterConstraints),
+    createCommentsSlice(apiClient),
+    createCommentMutationsSlice(apiClient, `${APP_STORAGE_KEY}:outbox`),
+    createCommentQuerySlice,
+    createBackupSlice(APP_STORAGE_KEY, selectPersistedState),
+    createAppSlice
+  );
+  const createState: StateCreator<AppState, AppMiddlewares> = (...args) => ({
+    ...createSlices(...args),
+    ...initialState
+  });
+  // The server's state is newer than what was stored, but only when the page
+  // loads; later hydrations (Clear Storage, another tab's write) keep what
+  // happened since
+  let serverState: Partial<PersistedState> | undefined = initialState;
+  const getKeyring = PERSIST_ENCRYPTION_KEYS ? parseKeyring(PERSIST_ENCRYPTION_KEYS) : undefined;
+  const createSerializingStorage = <T>() => getKeyring
+    ? createSecureJSONStorage<T>(getStorage, { getKeyring })
+    : createJSONStorage<T>(getStorage);
+  const restorer = createPersistedStateRestorer<AppState>({
+    storageKey: APP_STORAGE_KEY,
+    // Unreadable payloads may still hold the user's data, so they are kept
+    // just as encrypted as the state
+    storage: createSerializingStorage<unknown>()
+  });
+
+  return createStore<AppState>()(
+    devtools(
+      persist(
+        // Outside temporal, so undo and redo are logged too
+        actionLog(
+          temporal(createState, {
+            partialize: selectHistorySnapshot,
+            limit: 50,
+            include: UNDOABLE_ACTIONS,
+            // Other tabs' changes arrive unrecorded; undo leaves their counters and comments be
+            collections: [
+              { byId: 'counters', ids: 'counterIds' },
+              { byId: 'commentsById', ids: 'commentIds' }
+            ]
+          }),
+          { sinks: actionSinks }
+        ),
+        {
+          name: claimStorageKey(APP_STORAGE_KEY, 'AppStore'),
+          skipHydration,
+          // Batches writes from rapid increments and typing into one serialization.
+          // Encrypted writes skip the wait: they can't finish during an unload, so
+          // they start right away and coalesce while encrypting instead
+          storage: createScheduledStorage(
+            createPolicyStorage(
+              createSerializingStorage<PersistedState>(),
+              {
+                policies: PERSIST_POLICIES,
+                // Failed writes reject, and the scheduler logs them
+                onWriteError: (error, { dropped, error: failure }) => {
+                  if (failure) {
+                    if (isQuotaExceededError(failure)) console.error('❌ Storage is full, state was not saved:', failure);
+                  } else {
+                    console.warn(`⚠️ Storage is full, saved without ${dropped.join(', ')}:`, error);
+                  }
+                }
+              }
+            ),
+            { mode: 'debounce', wait: PERSIST_ENCRYPTION_KEYS ? 0 : 300 }
+          ),
+          partialize: selectPersistedState,
+          onRehydrateStorage: trackHydration<AppState>(APP_STORAGE_KEY, () => {
+            console.log('🔄 Hydration started');
+
+            // Runs once the storage read resolves, which may be well after the
+            // first render when the backend is asynchronous
+            return (state, error) => {
+              if (error) {
+                console.error('❌ Hydration failed:', error);
+                return;
+              }
+
+              const { expired, dropped } = getPersistPolicyStatus(APP_STORAGE_KEY);
+              if (expired.length > 0) console.log(`🔄 Persisted ${expired.join(', ')} expired and will be refetched`);
+              if (dropped.length > 0) console.warn(`⚠️ ${dropped.join(', ')} could not be saved last time: storage is full`);
+              console.log('✅ Hydration completed', state);
+            };
+          }),
+          version: PERSISTED_STATE_VERSION,
+          migrate: restorer.migrate,
+          merge: (persistedState, currentState) => {
+            const merged = { ...restorer.merge(persistedState, currentState), ...serverState };
+            serverState = undefined;
+            // Stored under other (or no) constraints, counts may be out of range
+            const counters = Object.fromEntries(Object.entries(merged.counters).map(([id, counter]) => {
+              const count = normalizeCount(counter.count, counterConstraints);
+              if (count !== counter.count) {
+                console.warn(`⚠️ Persisted count ${counter.count} of "${counter.name}" is invalid, using ${count}`);
+              }
+              return [id, { ...counter, count }];
+            }));
+            // Comments prefetched by the server don't include changes still queued in this browser
+            return { ...merged, ...applyOutbox(merged, merged.outbox), counters };
+          }
+        }
+      ),
+      {
+        name: 'AppStore'
+      }
+    )
+  );
+}
+
+export type AppStore = ReturnType<typeof createAppStore>;
+
+/**
+ * Wipes everything the app persisted and starts over without a reload:
+ * running comment requests are cancelled, undo history is dropped and
+ * hydration runs again against the emptied storage. Comments prefetched by
+ * the server are dropped too; they are refetched like any others. An
+ * unreadable payload that was quarantined is removed as well.
+ */
+export async function resetAppStore(store: AppStore): Promise<void> {
+  // Otherwise a response still on its way would land in the fresh state
+  store.getState().clearComments();
+  // It may hold the user's comments, emails included. Not awaited, so
+  // hydration restarts right away like it does after clearStorage
+  void Promise.resolve(store.persist.getOptions().storage?.removeItem(getQuarantineKey(APP_STORAGE_KEY)))
+    .catch((error) => console.error('❌ Failed to remove the quarantined state:', error));
+  await resetPersistedStore(store, {
+    ...store.getInitialState(),
+    ...createDefaultState(store.getState().counterConstraints)
+  });
+  store.temporal.getState().clear();
+}
+
+/**
+ * Writes what the store still has pending; call it when the store is
+ * discarded. It does not stop the store: writes made afterwards are
+ * scheduled as before.
+ */
+export function disposeAppStore(store: AppStore): void {
+  (store.persist.getOptions().storage as ScheduledPersistStorage<unknown> | undefined)?.dispose();
+}
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PersistedState } from '@/types/store';
+import { createMemoryStorage } from './storage';
+import { createTestAppStore, flushPersistedState, setUpTestAppStores } from './testing';
+import { syncAcrossTabs, type CrossTabSyncOptions } from './crossTabSync';
+import { APP_STORAGE_KEY } from './storageKeys';
+import { DEFAULT_COUNTER_ID } from './slices/counterSlice';
+
+const counters: Partial<PersistedState> = {
+  counters: {
+    [DEFAULT_COUNTER_ID]: { id: DEFAULT_COUNTER_ID, name: 'Counter', count: 0 },
+    laps: { id: 'laps', name: 'Laps', count: 0 }
+  },
+  counterIds: [DEFAULT_COUNTER_ID, 'laps']
+};
+
+// BroadcastChannel delivers on a later turn of the event loop
+const delivered = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+let stopSyncing: (() => void)[] = [];
+
+function createTabs(options: Omit<CrossTabSyncOptions<PersistedState>, 'name'>, initialState = counters) {
+  const tabs = [1, 2].map(() => createTestAppStore({ initialState }).store);
+  stopSyncing = tabs.map((store) => syncAcrossTabs(store, { name: 'sync-test', ...options }));
+  return tabs;
+}
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+afterEach(() => {
+  vi.useRealTimers();
+  stopSyncing.forEach((stop) => stop());
+  stopSyncing = [];
+});
+
+describe('per-field policy with collections', () => {
+  const options = {
+    fields: ['counters', 'counterIds'],
+    collections: [{ byId: 'counters', ids: 'counterIds' }],
+    policy: 'per-field'
+  } satisfies Omit<CrossTabSyncOptions<PersistedState>, 'name'>;
+
+  it('keeps concurrent changes to different counters', async () => {
+    const [first, second] = createTabs(options);
+
+    first.getState().increment(DEFAULT_COUNTER_ID);
+    second.getState().incrementBy('laps', 2);
+    await delivered();
+
+    [first, second].forEach((tab) => {
+      expect(tab.getState().counters[DEFAULT_COUNTER_ID].count).toBe(1);
+      expect(tab.getState().counters.laps.count).toBe(2);
+    });
+  });
+
+  it('never leaves an id without its counter', async () => {
+    const [first, second] = createTabs(options);
+
+    const id = first.getState().createCounter('New');
+    second.getState().removeCounter('laps');
+    await delivered();
+
+    [first, second].forEach((tab) => {
+      expect(tab.getState().counterIds).toEqual([DEFAULT_COUNTER_ID, id]);
+      tab.getState().counterIds.forEach((counterId) => expect(tab.getState().counters[counterId]).toBeDefined());
+    });
+  });
+});
+
+describe('last-writer-wins policy', () => {
+  const options = { fields: ['page', 'total'] } satisfies Omit<CrossTabSyncOptions<PersistedState>, 'name'>;
+
+  it('applies changes from another tab', async () => {
+    const [first, second] = createTabs(options);
+
+    first.setState({ page: 3 });
+    await delivered();
+    expect(second.getState().page).toBe(3);
+  });
+
+  it('drops a remote change older than the last local one, even to another field', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const [first, second] = createTabs(options);
+
+    vi.setSystemTime(1000);
+    first.setState({ page: 3 });
+    vi.setSystemTime(2000);
+    second.setState({ total: 30 });
+    await delivered();
+
+    expect(first.getState()).toMatchObject({ page: 3, total: 30 });
+    expect(second.getState()).toMatchObject({ page: 0, total: 30 });
+  });
+});
+
+describe('per-field policy', () => {
+  it('keeps concurrent changes to different fields', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const [first, second] = createTabs({ fields: ['page', 'total'], policy: 'per-field' });
+
+    vi.setSystemTime(1000);
+    first.setState({ page: 3 });
+    vi.setSystemTime(2000);
+    second.setState({ total: 30 });
+    await delivered();
+
+    [first, second].forEach((tab) => expect(tab.getState()).toMatchObject({ page: 3, total: 30 }));
+  });
+
+  it('keeps the newer of two changes to the same field', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const [first, second] = createTabs({ fields: ['page'], policy: 'per-field' });
+
+    vi.setSystemTime(2000);
+    first.setState({ page: 5 });
+    vi.setSystemTime(1000);
+    second.setState({ page: 2 });
+    await delivered();
+
+    [first, second].forEach((tab) => expect(tab.getState().page).toBe(5));
+  });
+});
+
+describe('without BroadcastChannel', () => {
+  // A window with no BroadcastChannel, whose `storage` events the test fires
+  function createTarget() {
+    const listeners = new Set<(event: StorageEvent) => void>();
+    const target = {
+      addEventListener: (_type: string, listener: (event: StorageEvent) => void) => listeners.add(listener),
+      removeEventListener: (_type: string, listener: (event: StorageEvent) => void) => listeners.delete(listener)
+    } as unknown as Window & typeof globalThis;
+    const fireStorage = (key: string) => listeners.forEach((listener) => listener({ key } as StorageEvent));
+    return { target, fireStorage };
+  }
+
+  it('rehydrates from shared storage when another tab writes it', async () => {
+    const storage = createMemoryStorage();
+    const [first, second] = [1, 2].map(() => createTestAppStore({ storage, initialState: counters }).store);
+    const { target, fireStorage } = createTarget();
+    stopSyncing = [syncAcrossTabs(first, { name: 'sync-test', fields: ['counters', 'counterIds'], target })];
+
+    second.getState().incrementBy('laps', 4);
+    flushPersistedState(second);
+    fireStorage('unrelated-key');
+    expect(first.getState().counters.laps.count).toBe(0);
+
+    fireStorage(APP_STORAGE_KEY);
+    await delivered();
+    expect(first.getState().counters.laps.count).toBe(4);
+  });
+});
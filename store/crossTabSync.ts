@@ -0,0 +1,190 @@
+import type { Mutate, StoreApi } from 'zustand';
+
+type PersistedStoreApi<S, P> = Mutate<StoreApi<S>, [['zustand/persist', P]]>;
+
+/**
+ * How a change received from another tab is reconciled with local state.
+ *
+ * - `last-writer-wins`: the remote change is applied when it is newer than
+ *   the last local change to any synced field.
+ * - `per-field`: each remote field is applied only when it is newer than the
+ *   last local change to that same field, so concurrent edits to different
+ *   fields both survive. Collections are merged per entity the same way.
+ */
+export type ConflictPolicy = 'last-writer-wins' | 'per-field';
+
+/**
+ * A normalized collection: a record of entities and the ordered list of
+ * their ids. Both fields always travel together, so no tab ever ends up
+ * with an id whose entity it doesn't have (or the other way around).
+ */
+export interface SyncedCollection<S> {
+  byId: keyof S;
+  ids: keyof S;
+}
+
+type EntityRecord = Record<string, unknown>;
+type IdList = (string | number)[];
+
+export interface CrossTabSyncOptions<S> {
+  /** Channel name; use the persist storage key so unrelated stores never mix */
+  name: string;
+  fields: (keyof S)[];
+  /** Pairs of `fields` that hold a normalized collection */
+  collections?: SyncedCollection<S>[];
+  policy?: ConflictPolicy;
+  /** Injected for tests; defaults to `window` */
+  target?: Window & typeof globalThis;
+}
+
+interface SyncMessage<S> {
+  source: string;
+  updatedAt: number;
+  state: Partial<S>;
+  /** Keys of the entities each collection (by its `byId` field) added, changed or removed */
+  entities: Partial<Record<keyof S, string[]>>;
+}
+
+function changedKeys(previous: EntityRecord, next: EntityRecord): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(keys).filter((key) => previous[key] !== next[key]);
+}
+
+// Remote order first, then local ids it doesn't know, keeping only ids with an entity
+function mergeIds(remote: IdList, local: IdList, byId: EntityRecord): IdList {
+  const seen = new Set<string>();
+  return [...remote, ...local].filter((id) => {
+    const key = String(id);
+    if (seen.has(key) || !(key in byId)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Keeps `fields` of a persisted store in sync between tabs of the same origin.
+ *
+ * Changes are broadcast over a BroadcastChannel. Where that API is missing,
+ * the store falls back to `storage` events and rehydrates from the shared
+ * persisted payload, which is always last-writer-wins.
+ *
+ * Returns a function that stops syncing.
+ */
+export function syncAcrossTabs<S extends object, P>(
+  store: PersistedStoreApi<S, P>,
+  { name, fields, collections = [], policy = 'last-writer-wins', target = window }: CrossTabSyncOptions<S>
+): () => void {
+  if (typeof target.BroadcastChannel === 'undefined') {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === store.persist.getOptions().name) {
+        void store.persist.rehydrate();
+      }
+    };
+
+    target.addEventListener('storage', onStorage);
+    return () => target.removeEventListener('storage', onStorage);
+  }
+
+  const source = Math.random().toString(36).slice(2);
+  const channel = new target.BroadcastChannel(name);
+  const fieldUpdatedAt = new Map<keyof S, number>();
+  // Per-field policy only: when each entity of a collection last changed here, by "<byId>:<key>"
+  const entityUpdatedAt = new Map<string, number>();
+  let applyingRemote = false;
+
+  const collectionFields = new Set(collections.flatMap(({ byId, ids }) => [byId, ids]));
+  const lastLocalUpdate = () => Math.max(0, ...Array.from(fieldUpdatedAt.values()));
+
+  // Applies the remote entities that are newer than this tab's copies
+  const mergeCollection = ({ byId, ids }: SyncedCollection<S>, data: SyncMessage<S>, patch: Partial<S>) => {
+    const state = store.getState();
+    const remoteById = data.state[byId] as EntityRecord | undefined;
+    if (!remoteById) return;
+
+    const merged: EntityRecord = { ...(state[byId] as EntityRecord) };
+    let changed = false;
+    (data.entities[byId] ?? []).forEach((key) => {
+      const stamp = `${String(byId)}:${key}`;
+      if (data.updatedAt <= (entityUpdatedAt.get(stamp) ?? 0)) return;
+
+      entityUpdatedAt.set(stamp, data.updatedAt);
+      changed = true;
+      if (key in remoteById) {
+        merged[key] = remoteById[key];
+      } else {
+        delete merged[key];
+      }
+    });
+
+    const mergedIds = mergeIds(data.state[ids] as IdList, state[ids] as IdList, merged);
+    const localIds = state[ids] as IdList;
+    if (!changed && mergedIds.length === localIds.length && mergedIds.every((id, index) => id === localIds[index])) return;
+
+    patch[byId] = (changed ? merged : state[byId]) as S[keyof S];
+    patch[ids] = mergedIds as S[keyof S];
+  };
+
+  channel.onmessage = ({ data }: MessageEvent<SyncMessage<S>>) => {
+    if (data.source === source) return;
+
+    const patch: Partial<S> = {};
+    const received = (Object.keys(data.state) as (keyof S)[]).filter((field) => fields.includes(field));
+
+    if (policy === 'per-field') {
+      received
+        .filter((field) => !collectionFields.has(field) && data.updatedAt > (fieldUpdatedAt.get(field) ?? 0))
+        .forEach((field) => {
+          patch[field] = data.state[field];
+          fieldUpdatedAt.set(field, data.updatedAt);
+        });
+      collections.forEach((collection) => mergeCollection(collection, data, patch));
+    } else if (data.updatedAt >= lastLocalUpdate()) {
+      // Collection fields arrive in pairs, so applying everything keeps them consistent
+      received.forEach((field) => {
+        patch[field] = data.state[field];
+        fieldUpdatedAt.set(field, data.updatedAt);
+      });
+    }
+    if (Object.keys(patch).length === 0) return;
+
+    applyingRemote = true;
+    try {
+      store.setState(patch);
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  const unsubscribe = store.subscribe((state, previousState) => {
+    // Rehydration replays what is already in shared storage; echoing it
+    // would stamp stale data as the newest write
+    if (applyingRemote || !store.persist.hasHydrated()) return;
+
+    const changed = fields.filter((field) => state[field] !== previousState[field]);
+    if (changed.length === 0) return;
+
+    const updatedAt = Date.now();
+    const message: SyncMessage<S> = { source, updatedAt, state: {}, entities: {} };
+    changed.forEach((field) => {
+      message.state[field] = state[field];
+      fieldUpdatedAt.set(field, updatedAt);
+    });
+    collections
+      .filter(({ byId, ids }) => changed.includes(byId) || changed.includes(ids))
+      .forEach(({ byId, ids }) => {
+        message.state[byId] = state[byId];
+        message.state[ids] = state[ids];
+
+        const keys = changedKeys(previousState[byId] as EntityRecord, state[byId] as EntityRecord);
+        message.entities[byId] = keys;
+        keys.forEach((key) => entityUpdatedAt.set(`${String(byId)}:${key}`, updatedAt));
+      });
+
+    channel.postMessage(message);
+  });
+
+  return () => {
+    unsubscribe();
+    channel.close();
+  };
+}
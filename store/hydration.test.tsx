@@ -0,0 +1,95 @@
+import { act, renderHook } from '@testing-library/react';
+import { hydrateRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import type { StateStorage } from 'zustand/middleware';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from './storage';
+import { createTestAppStore, setUpTestAppStores, waitForHydration } from './testing';
+import { resetAppStore } from './createAppStore';
+import { awaitHydration, getHydrationError, useHydrated, type HydratableStore } from './hydration';
+import { DEFAULT_COUNTER_ID } from './slices/counterSlice';
+
+// Reads resolve on a later tick, like IndexedDB
+function createAsyncStorage(): StateStorage {
+  const memory = createMemoryStorage();
+  return {
+    getItem: async (name) => memory.getItem(name),
+    setItem: async (name, value) => memory.setItem(name, value),
+    removeItem: async (name) => memory.removeItem(name)
+  };
+}
+
+function HydratedProbe({ store, renders }: { store: HydratableStore; renders: boolean[] }) {
+  const hydrated = useHydrated(store);
+  renders.push(hydrated);
+  return <span>{String(hydrated)}</span>;
+}
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+describe('on the server', () => {
+  it('renders as not hydrated, even for a hydrated store', async () => {
+    const { store } = createTestAppStore();
+    await waitForHydration(store);
+
+    expect(renderToString(<HydratedProbe store={store} renders={[]} />)).toBe('<span>false</span>');
+  });
+
+  it('has nothing to wait for when the store has no persisted storage', async () => {
+    const serverStore: HydratableStore = {};
+
+    await expect(awaitHydration(serverStore)).resolves.toBeUndefined();
+    expect(getHydrationError(serverStore)).toBeUndefined();
+  });
+});
+
+describe('on the client', () => {
+  it('first renders what the server rendered, then the hydrated state', async () => {
+    const { store } = createTestAppStore();
+    await waitForHydration(store);
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(<HydratedProbe store={store} renders={[]} />);
+    const renders: boolean[] = [];
+    const root = await act(async () => hydrateRoot(container, <HydratedProbe store={store} renders={renders} />));
+
+    expect(renders[0]).toBe(false);
+    expect(container.textContent).toBe('true');
+    // React reports a mismatch with the server HTML through console.error
+    expect(errors).not.toHaveBeenCalled();
+    act(() => root.unmount());
+  });
+
+  it('goes back to not hydrated while hydration runs again after Clear Storage', async () => {
+    const { store } = createTestAppStore({ storage: createAsyncStorage() });
+    await waitForHydration(store);
+    store.getState().increment(DEFAULT_COUNTER_ID);
+    const { result } = renderHook(() => useHydrated(store));
+    expect(result.current).toBe(true);
+
+    let reset!: Promise<void>;
+    act(() => {
+      reset = resetAppStore(store);
+    });
+    expect(result.current).toBe(false);
+
+    await act(() => reset);
+    expect(result.current).toBe(true);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(0);
+  });
+
+  it('settles with the error when reading storage fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = new Error('Storage is locked');
+    const { store } = createTestAppStore({
+      storage: { ...createMemoryStorage(), getItem: () => Promise.reject(failure) }
+    });
+
+    await waitForHydration(store);
+    expect(getHydrationError(store)).toBe(failure);
+    expect(store.persist.hasHydrated()).toBe(false);
+    // Counts as settled, so the UI shows the initial state instead of waiting forever
+    expect(renderHook(() => useHydrated(store)).result.current).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { PersistOptions } from 'zustand/middleware';
+
+/**
+ * The part of a persisted store's API the hydration helpers rely on. `persist`
+ * is missing on the server, where persist has no storage and never hydrates.
+ */
+export interface HydratableStore {
+  persist?: {
+    getOptions: () => { name?: string };
+    hasHydrated: () => boolean;
+    onHydrate: (listener: () => void) => () => void;
+    onFinishHydration: (listener: () => void) => () => void;
+  };
+}
+
+// persist never finishes hydrating when reading or migrating throws, so
+// failures are tracked separately (keyed by storage name) to let the UI
+// settle on the initial state instead of waiting forever
+const hydrationErrors = new Map<string, unknown>();
+const errorListeners = new Set<() => void>();
+
+const notifyErrorListeners = () => errorListeners.forEach((listener) => listener());
+
+/**
+ * Wraps a store's `onRehydrateStorage` so that a failed hydration is
+ * recorded and counts as settled for `useHydrated`/`awaitHydration`.
+ */
+export function trackHydration<S>(
+  storageKey: string,
+  onRehydrateStorage?: PersistOptions<S>['onRehydrateStorage']
+): NonNullable<PersistOptions<S>['onRehydrateStorage']> {
+  return (state) => {
+    if (hydrationErrors.delete(storageKey)) notifyErrorListeners();
+    const onSettled = onRehydrateStorage?.(state);
+
+    return (hydratedState, error) => {
+      if (error !== undefined) {
+        hydrationErrors.set(storageKey, error);
+        notifyErrorListeners();
+      }
+      onSettled?.(hydratedState, error);
+    };
+  };
+}
+
+export function getHydrationError(store: HydratableStore): unknown {
+  const name = store.persist?.getOptions().name;
+  return name === undefined ? undefined : hydrationErrors.get(name);
+}
+
+function isSettled(store: HydratableStore): boolean {
+  const { persist } = store;
+  if (!persist) return false;
+
+  const name = persist.getOptions().name;
+  return persist.hasHydrated() || (name !== undefined && hydrationErrors.has(name));
+}
+
+function subscribe(store: HydratableStore, onChange: () => void): () => void {
+  const unsubscribers = [
+    store.persist?.onHydrate(onChange),
+    store.persist?.onFinishHydration(onChange)
+  ];
+  errorListeners.add(onChange);
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe?.());
+    errorListeners.delete(onChange);
+  };
+}
+
+/**
+ * Whether `store` has finished reading its persisted state. Always false on
+ * the server and while React hydrates server-rendered markup, so that markup
+ * never depends on storage contents. Flips back to false while
+ * `persist.rehydrate()` runs again.
+ */
+export function useHydrated(store: HydratableStore): boolean {
+  const subscribeToStore = useCallback(
+    (onChange: () => void) => subscribe(store, onChange),
+    [store]
+  );
+
+  return useSyncExternalStore(
+    subscribeToStore,
+    () => isSettled(store),
+    () => false
+  );
+}
+
+const pendingHydrations = new WeakMap<HydratableStore, Promise<void>>();
+
+/**
+ * Resolves once `store` has hydrated. The same promise is returned until it
+ * settles, so it can be thrown to a Suspense boundary on every render.
+ * Resolves immediately for stores without persisted storage (e.g. on the
+ * server), since there is nothing to wait for.
+ */
+export function awaitHydration(store: HydratableStore): Promise<void> {
+  if (!store.persist || isSettled(store)) return Promise.resolve();
+
+  let pending = pendingHydrations.get(store);
+  if (!pending) {
+    pending = new Promise<void>((resolve) => {
+      const unsubscribe = subscribe(store, () => {
+        if (!isSettled(store)) return;
+        unsubscribe();
+        pendingHydrations.delete(store);
+        resolve();
+      });
+    });
+    pendingHydrations.set(store, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from './storage';
+import { createTestAppStore, setUpTestAppStores, testComment } from './testing';
+import { APP_STORAGE_KEY } from './storageKeys';
+import { DEFAULT_COUNTER_ID, createInitialCounters } from './slices/counterSlice';
+import {
+  PERSISTED_STATE_VERSION,
+  PersistedStateError,
+  migratePersistedState,
+  validatePersistedState
+} from './migrations';
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+describe('migratePersistedState', () => {
+  it('upgrades the v0 `{ count }` payload to the current shape', () => {
+    expect(migratePersistedState({ count: 4 }, 0)).toEqual({
+      ...createInitialCounters(4),
+      commentsById: {},
+      commentIds: [],
+      page: 0,
+      hasMore: true,
+      total: null,
+      lastFetchedAt: null,
+      outbox: []
+    });
+  });
+
+  it('normalizes a v1 comment list as a single loaded page', () => {
+    const state = migratePersistedState({ count: 1, comments: [testComment(1), testComment(2)] }, 1);
+
+    expect(state).toMatchObject({ commentIds: [1, 2], page: 1, hasMore: false, lastFetchedAt: null });
+    expect(state.commentsById[2]).toEqual(testComment(2));
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(() => migratePersistedState({}, PERSISTED_STATE_VERSION + 1)).toThrow(PersistedStateError);
+  });
+});
+
+describe('validatePersistedState', () => {
+  it('repairs what it can and drops what it cannot', () => {
+    const state = validatePersistedState({
+      counters: {
+        [DEFAULT_COUNTER_ID]: { id: DEFAULT_COUNTER_ID, name: 'Counter', count: '7' },
+        broken: { id: 'broken', count: 1 },
+        laps: { id: 'laps', name: 'Laps', count: 'many' }
+      },
+      counterIds: [DEFAULT_COUNTER_ID, 'broken', 'laps', 'missing'],
+      commentsById: { 1: testComment(1), 2: { id: 2 } },
+      commentIds: [1, 2, 3],
+      page: -1,
+      hasMore: 'yes',
+      total: Infinity,
+      lastFetchedAt: 'yesterday',
+      outbox: [{ type: 'delete', id: 1, previous: testComment(1) }, { type: 'delete', id: 2 }]
+    });
+
+    expect(state).toEqual({
+      counters: {
+        [DEFAULT_COUNTER_ID]: { id: DEFAULT_COUNTER_ID, name: 'Counter', count: 7 },
+        laps: { id: 'laps', name: 'Laps', count: 0 }
+      },
+      counterIds: [DEFAULT_COUNTER_ID, 'laps'],
+      commentsById: { 1: testComment(1) },
+      commentIds: [1],
+      page: 0,
+      hasMore: true,
+      total: null,
+      lastFetchedAt: null,
+      outbox: [{ type: 'delete', id: 1, previous: testComment(1) }]
+    });
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(() => validatePersistedState('{"count":1}')).toThrow(PersistedStateError);
+  });
+});
+
+describe('rehydration', () => {
+  it('migrates a stored v0 payload', () => {
+    const storage = createMemoryStorage();
+    storage.setItem(APP_STORAGE_KEY, JSON.stringify({ state: { count: 4 }, version: 0 }));
+
+    const { store } = createTestAppStore({ storage });
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(4);
+  });
+
+  it('quarantines a payload it cannot read before falling back to the initial state', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createMemoryStorage();
+    // Written by a newer release, which this one can't migrate down from
+    const future = { counters: {}, counterIds: [], shiny: true };
+    storage.setItem(APP_STORAGE_KEY, JSON.stringify({ state: future, version: 99 }));
+
+    const { store } = createTestAppStore({ storage });
+    expect(store.getState().counterIds).toEqual([DEFAULT_COUNTER_ID]);
+    expect(JSON.parse(storage.getItem(`${APP_STORAGE_KEY}:quarantine`) as string)).toMatchObject({
+      state: future,
+      version: 99,
+      reason: 'Unknown persisted state version 99'
+    });
+  });
+
+  it('quarantines a stored state that is not an object', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createMemoryStorage();
+    storage.setItem(APP_STORAGE_KEY, JSON.stringify({ state: 'corrupted', version: PERSISTED_STATE_VERSION }));
+
+    createTestAppStore({ storage });
+    expect(JSON.parse(storage.getItem(`${APP_STORAGE_KEY}:quarantine`) as string)).toMatchObject({
+      state: 'corrupted',
+      reason: 'Persisted state is not an object'
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import type { Comment, CommentsPaging, CountersCollection, NamedCounter, NormalizedComments, PersistedState } from '@/types/store';
+import { INITIAL_COUNT, createInitialCounters } from './slices/counterSlice';
+import { initialCommentsState, normalizeComments } from './slices/commentsSlice';
+import { COMMENTS_PAGE_SIZE } from './apiClient';
+import { isComment, isQueuedCommentMutation, isRecord } from './commentSchema';
+import { initialCommentMutationsState } from './slices/commentMutationsSlice';
+
+// Shapes written by earlier releases. v0 is the `{ count }` payload of the
+// old standalone useStore; v1 added the comments list, v2 the time they were
+// fetched, v3 stores them normalized along with paging state, v4 keeps
+// comment changes made offline and v5 replaces `count` with named counters.
+interface PersistedStateV0 {
+  count: number;
+}
+
+interface PersistedStateV1 {
+  comments: Comment[];
+  count: number;
+}
+
+interface PersistedStateV2 extends PersistedStateV1 {
+  lastFetchedAt: number | null;
+}
+
+interface PersistedStateV3 extends NormalizedComments, CommentsPaging {
+  count: number;
+  lastFetchedAt: number | null;
+}
+
+interface PersistedStateV4 extends PersistedStateV3 {
+  outbox: PersistedState['outbox'];
+}
+
+type PersistedStateV5 = PersistedState;
+
+type Migration<From, To> = (state: From) => To;
+
+// Entry N upgrades a version-N payload to version N + 1. Append a step
+// (and its target shape) whenever PersistedState changes.
+const migrations: [
+  Migration<PersistedStateV0, PersistedStateV1>,
+  Migration<PersistedStateV1, PersistedStateV2>,
+  Migration<PersistedStateV2, PersistedStateV3>,
+  Migration<PersistedStateV3, PersistedStateV4>,
+  Migration<PersistedStateV4, PersistedStateV5>
+] = [
+  (state) => ({ ...state, comments: [] }),
+  // Unknown age: treat the stored comments as stale
+  (state) => ({ ...state, lastFetchedAt: null }),
+  ({ comments, ...state }) => ({
+    ...state,
+    ...normalizeComments(comments),
+    // Earlier releases always loaded a single page
+    page: comments.length > 0 ? 1 : 0,
+    hasMore: comments.length === 0 || comments.length === COMMENTS_PAGE_SIZE,
+    total: null
+  }),
+  (state) => ({ ...state, outbox: [] }),
+  // The single count becomes the default counter
+  ({ count, ...state }) => ({ ...state, ...createInitialCounters(count) })
+];
+
+export const PERSISTED_STATE_VERSION = migrations.length;
+
+export class PersistedStateError extends Error {
+  constructor(message: string, readonly payload: unknown) {
+    super(message);
+    this.name = 'PersistedStateError';
+  }
+}
+
+function toFiniteOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function toNormalizedComments(commentsById: unknown, commentIds: unknown): NormalizedComments {
+  if (!isRecord(commentsById)) return initialCommentsState;
+
+  const comments = (Array.isArray(commentIds) ? commentIds : [])
+    .map((id) => commentsById[String(id)])
+    .filter(isComment);
+  return normalizeComments(comments);
+}
+
+function toCount(value: unknown): number {
+  const count = typeof value === 'string' ? Number(value) : value;
+  return typeof count === 'number' && Number.isFinite(count)
+    ? count
+    : INITIAL_COUNT;
+}
+
+function toCounters(counters: unknown, counterIds: unknown): CountersCollection {
+  if (!isRecord(counters) || !Array.isArray(counterIds)) return createInitialCounters();
+
+  const valid = counterIds
+    .filter((id): id is string => typeof id === 'string')
+    .map((id) => counters[id])
+    .filter((counter): counter is Record<string, unknown> => isRecord(counter)
+      && typeof counter.id === 'string'
+      && typeof counter.name === 'string')
+    .map((counter): NamedCounter => ({
+      id: counter.id as string,
+      name: counter.name as string,
+      count: toCount(counter.count)
+    }));
+
+  return {
+    counters: Object.fromEntries(valid.map((counter) => [counter.id, counter])),
+    counterIds: valid.map(({ id }) => id)
+  };
+}
+
+/**
+ * Coerces a rehydrated payload into the current PersistedState shape.
+ * Fields that can be salvaged are repaired (unusable comments, counters and
+ * ids without an entity are dropped, a non-numeric count falls back to its
+ * initial value);
+ * anything that is not an object at all is rejected.
+ */
+export function validatePersistedState(value: unknown): PersistedState {
+  if (!isRecord(value)) {
+    throw new PersistedStateError('Persisted state is not an object', value);
+  }
+
+  const normalized = toNormalizedComments(value.commentsById, value.commentIds);
+  const page = typeof value.page === 'number' && Number.isInteger(value.page) && value.page >= 0
+    ? value.page
+    : initialCommentsState.page;
+
+  return {
+    ...toCounters(value.counters, value.counterIds),
+    ...normalized,
+    page,
+    hasMore: typeof value.hasMore === 'boolean' ? value.hasMore : initialCommentsState.hasMore,
+    total: toFiniteOrNull(value.total),
+    lastFetchedAt: toFiniteOrNull(value.lastFetchedAt),
+    // Queued changes are the user's unsent work, so keep every entry that is still usable
+    outbox: Array.isArray(value.outbox) ? value.outbox.filter(isQueuedCommentMutation) : []
+  };
+}
+
+export function migratePersistedState(persistedState: unknown, version: number): PersistedState {
+  if (!Number.isInteger(version) || version < 0 || version > PERSISTED_STATE_VERSION) {
+    throw new PersistedStateError(`Unknown persisted state version ${version}`, persistedState);
+  }
+  if (!isRecord(persistedState)) {
+    throw new PersistedStateError('Persisted state is not an object', persistedState);
+  }
+
+  const migrated = migrations
+    .slice(version)
+    .reduce<unknown>((state, migrate) => (migrate as Migration<unknown, unknown>)(state), persistedState);
+
+  return validatePersistedState(migrated);
+}
+
+/** Where payloads stored under `storageKey` that could not be restored are set aside */
+export function getQuarantineKey(storageKey: string): string {
+  return `${storageKey}:quarantine`;
+}
+
+interface PersistedStateRestorerOptions {
+  storageKey: string;
+  /** Serializes the quarantined payload, encrypting it like the state itself if needed */
+  storage: PersistStorage<unknown> | undefined;
+}
+
+interface QuarantinedState extends StorageValue<unknown> {
+  reason: string;
+  quarantinedAt: string;
+}
+
+/**
+ * Builds the `migrate` and `merge` options for persist. Payloads that cannot
+ * be migrated or validated are copied to `<storageKey>:quarantine` before the
+ * store falls back to its initial state, since the next write would
+ * otherwise overwrite the user's data for good.
+ */
+export function createPersistedStateRestorer<S extends PersistedState>({
+  storageKey,
+  storage
+}: PersistedStateRestorerOptions) {
+  const quarantine = (state: unknown, version: number, error: unknown) => {
+    console.warn(`⚠️ Quarantining unreadable "${storageKey}" payload:`, error);
+
+    const reportFailure = (storageError: unknown) => {
+      console.error('❌ Failed to quarantine persisted state:', storageError);
+    };
+
+    const entry: QuarantinedState = {
+      state,
+      version,
+      reason: error instanceof Error ? error.message : String(error),
+      quarantinedAt: new Date().toISOString()
+    };
+    try {
+      // Async backends resolve the write later; their failures arrive as rejections
+      void Promise.resolve(storage?.setItem(getQuarantineKey(storageKey), entry)).catch(reportFailure);
+    } catch (storageError) {
+      reportFailure(storageError);
+    }
+  };
+
+  const restore = (persistedState: unknown, version: number): PersistedState => {
+    try {
+      return version === PERSISTED_STATE_VERSION
+        ? validatePersistedState(persistedState)
+        : migratePersistedState(persistedState, version);
+    } catch (error) {
+      quarantine(persistedState, version, error);
+      const { commentsById, commentIds, page, hasMore, total, lastFetchedAt } = initialCommentsState;
+      return {
+        ...createInitialCounters(),
+        commentsById,
+        commentIds,
+        page,
+        hasMore,
+        total,
+        lastFetchedAt,
+        outbox: initialCommentMutationsState.outbox
+      };
+    }
+  };
+
+  return {
+    migrate: restore,
+    merge: (persistedState: unknown, currentState: S): S => {
+      // Nothing stored yet
+      if (persistedState === undefined) return currentState;
+
+      return {
+        ...currentState,
+        // Payloads at an older version already went through `migrate`
+        ...restore(persistedState, PERSISTED_STATE_VERSION)
+      };
+    }
+  };
+}
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJSONStorage, type StateStorage } from 'zustand/middleware';
+import { createMemoryStorage } from './storage';
+import { createScheduledStorage } from './persistScheduler';
+import { createPolicyStorage, getPersistPolicyStatus, type PersistPolicies } from './persistPolicy';
+
+interface State {
+  comments: number[];
+  count: number;
+}
+
+const TTL = 60 * 1000;
+
+const policies: PersistPolicies<State> = {
+  comments: { fields: ['comments'], ttl: TTL },
+  counter: { fields: ['count'] }
+};
+
+const state: State = { comments: [1, 2], count: 3 };
+
+// Each test stores under its own name, since statuses are kept per name
+const createPolicy = (backend: StateStorage, onWriteError?: () => void) =>
+  createPolicyStorage(createJSONStorage<State>(() => backend), { policies, onWriteError })!;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ttl', () => {
+  it('keeps a group that changed within its ttl', async () => {
+    const backend = createMemoryStorage();
+    await createPolicy(backend).setItem('fresh', { state, version: 0 });
+    vi.advanceTimersByTime(TTL - 1);
+
+    expect(createPolicy(backend).getItem('fresh')).toEqual({ state, version: 0 });
+    expect(getPersistPolicyStatus('fresh').expired).toEqual([]);
+  });
+
+  it('drops a group that went unchanged for its ttl and reports it', async () => {
+    const backend = createMemoryStorage();
+    await createPolicy(backend).setItem('expired', { state, version: 0 });
+    vi.advanceTimersByTime(TTL);
+
+    expect(createPolicy(backend).getItem('expired')).toEqual({ state: { count: 3 }, version: 0 });
+    expect(getPersistPolicyStatus('expired').expired).toEqual(['comments']);
+  });
+});
+
+describe('a full storage', () => {
+  // Rejects every payload that still holds comments
+  const createFullBackend = (): StateStorage => {
+    const backend = createMemoryStorage();
+    return {
+      ...backend,
+      setItem: (name, value) => {
+        if (value.includes('"comments":')) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        backend.setItem(name, value);
+      }
+    };
+  };
+
+  it('retries the write without the groups that have a ttl', async () => {
+    const backend = createFullBackend();
+    const onWriteError = vi.fn();
+    await createPolicy(backend, onWriteError).setItem('full', { state, version: 0 });
+
+    expect(JSON.parse(backend.getItem('full') as string)).toMatchObject({
+      state: { count: 3 },
+      policy: { dropped: ['comments'] }
+    });
+    expect(onWriteError).toHaveBeenCalledWith(expect.objectContaining({ name: 'QuotaExceededError' }), {
+      expired: [],
+      dropped: ['comments'],
+      error: null
+    });
+    expect(getPersistPolicyStatus('full').dropped).toEqual(['comments']);
+  });
+
+  it('reports the dropped groups again on the next rehydration', async () => {
+    const backend = createFullBackend();
+    await createPolicy(backend, () => {}).setItem('reloaded', { state, version: 0 });
+
+    expect(createPolicy(backend).getItem('reloaded')).toEqual({ state: { count: 3 }, version: 0 });
+    expect(getPersistPolicyStatus('reloaded')).toMatchObject({ expired: [], dropped: ['comments'] });
+  });
+
+  it('gives up once there is nothing left to drop', async () => {
+    const backend = createMemoryStorage();
+    const quotaError = new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    vi.spyOn(backend, 'setItem').mockImplementation(() => {
+      throw quotaError;
+    });
+    const onWriteError = vi.fn();
+    await expect(createPolicy(backend, onWriteError).setItem('stuck', { state, version: 0 })).rejects.toBe(quotaError);
+
+    expect(onWriteError).toHaveBeenCalledWith(quotaError, { expired: [], dropped: ['comments'], error: quotaError });
+    expect(backend.getItem('stuck')).toBeNull();
+  });
+});
+
+describe('under the persist scheduler', () => {
+  it('writes the same state again after a failed write', async () => {
+    const backend = createMemoryStorage();
+    const setItem = vi.spyOn(backend, 'setItem').mockImplementationOnce(() => {
+      throw new Error('Storage is unavailable');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = createScheduledStorage(createPolicy(backend, () => {}), { mode: 'debounce', wait: 0 })!;
+
+    storage.setItem('retried', { state, version: 0 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(backend.getItem('retried')).toBeNull();
+
+    // Nothing was saved, so an identical state still counts as a change
+    storage.setItem('retried', { state, version: 0 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(createPolicy(backend).getItem('retried')).toEqual({ state, version: 0 });
+  });
+});
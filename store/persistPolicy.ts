@@ -0,0 +1,202 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import { mapStored, peekItem, type PeekableStorage } from './storage';
+
+/**
+ * How one group of persisted fields is kept. Without a `ttl` the group
+ * persists until it is overwritten; with one it is dropped on rehydration
+ * once it has gone unchanged for `ttl` ms, and it is given up first when
+ * storage runs out of space.
+ */
+export interface PersistFieldPolicy<S> {
+  fields: (keyof S)[];
+  ttl?: number;
+}
+
+export type PersistPolicies<S> = Record<string, PersistFieldPolicy<S>>;
+
+export interface PersistPolicyStatus {
+  /** Groups dropped on rehydration because their TTL had passed */
+  expired: string[];
+  /** Groups left out of the latest write because storage was full */
+  dropped: string[];
+  /** Why the latest write failed altogether, if it did */
+  error: unknown;
+}
+
+export interface PolicyStorageOptions<S> {
+  policies: PersistPolicies<S>;
+  /** Called when a write had to drop groups or failed altogether */
+  onWriteError?: (error: unknown, status: PersistPolicyStatus) => void;
+}
+
+// Stored next to `state` and `version`, which persist ignores
+interface PolicyMetadata {
+  /** When each group last changed */
+  changedAt: Record<string, number>;
+  dropped: string[];
+}
+
+type PolicyStorageValue<S> = StorageValue<S> & { policy?: PolicyMetadata };
+
+const INITIAL_STATUS: PersistPolicyStatus = { expired: [], dropped: [], error: null };
+
+// Keyed by storage name, like the hydration errors in ./hydration
+const statuses = new Map<string, PersistPolicyStatus>();
+const statusListeners = new Set<() => void>();
+
+function setStatus(name: string, changes: Partial<PersistPolicyStatus>): PersistPolicyStatus {
+  const status = { ...getPersistPolicyStatus(name), ...changes };
+  statuses.set(name, status);
+  statusListeners.forEach((listener) => listener());
+  return status;
+}
+
+export function getPersistPolicyStatus(name: string): PersistPolicyStatus {
+  return statuses.get(name) ?? INITIAL_STATUS;
+}
+
+/**
+ * What the policies did to the payload stored under `name`: which groups
+ * expired on rehydration and which ones the latest write had to leave out.
+ */
+export function usePersistPolicyStatus(name: string): PersistPolicyStatus {
+  const subscribe = useCallback((onChange: () => void) => {
+    statusListeners.add(onChange);
+    return () => {
+      statusListeners.delete(onChange);
+    };
+  }, []);
+
+  return useSyncExternalStore(
+    subscribe,
+    () => getPersistPolicyStatus(name),
+    () => INITIAL_STATUS
+  );
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && (
+    error.name === 'QuotaExceededError'
+    // Older Firefox
+    || error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  );
+}
+
+/**
+ * Wraps a persist storage so that each policy group of the state expires
+ * after its `ttl` and a full storage degrades instead of breaking persist:
+ * a write rejected with a QuotaExceededError is retried without the groups
+ * that have a `ttl`, one more at a time, in the order they are declared.
+ * Groups left out that way are reported through `onWriteError` and, on the
+ * next rehydration, through `getPersistPolicyStatus`. A write that fails
+ * altogether is reported too, and then rejects with the storage's error.
+ *
+ * `peek` returns the stored payload as is, metadata included, without
+ * expiring anything or touching the status.
+ */
+export function createPolicyStorage<S>(
+  storage: PersistStorage<S> | undefined,
+  { policies, onWriteError }: PolicyStorageOptions<S>
+): PeekableStorage<S> | undefined {
+  if (!storage) return undefined;
+
+  const expirable = Object.keys(policies).filter((group) => policies[group].ttl !== undefined);
+  // Per storage name: a fingerprint of each group as last seen, and when it changed
+  const fingerprints = new Map<string, Record<string, string>>();
+  const changedAt = new Map<string, Record<string, number>>();
+
+  const fingerprint = (state: S, group: string) =>
+    JSON.stringify(policies[group].fields.map((field) => state[field]));
+
+  const omitGroups = (state: S, groups: string[]): S => {
+    const next = { ...state };
+    groups.forEach((group) => policies[group].fields.forEach((field) => {
+      delete next[field];
+    }));
+    return next;
+  };
+
+  const restore = (name: string, stored: PolicyStorageValue<S> | null): StorageValue<S> | null => {
+    if (!stored) return null;
+
+    const { policy, ...value } = stored;
+    const stamps = { ...policy?.changedAt };
+    const now = Date.now();
+    // Payloads written before the policies existed carry no stamps and never expire
+    const expired = expirable.filter((group) => group in stamps && now - stamps[group] >= policies[group].ttl!);
+    expired.forEach((group) => delete stamps[group]);
+
+    // Left as is when it isn't an object, so validation can quarantine it
+    const state = typeof value.state === 'object' && value.state !== null
+      ? omitGroups(value.state, expired)
+      : value.state;
+    fingerprints.set(name, Object.fromEntries(Object.keys(stamps).map((group) => [group, fingerprint(state, group)])));
+    changedAt.set(name, stamps);
+    setStatus(name, { expired, dropped: policy?.dropped ?? [] });
+
+    return { ...value, state };
+  };
+
+  // Restamps the groups whose values differ from the last write
+  const stamp = (name: string, state: S) => {
+    const previous = fingerprints.get(name) ?? {};
+    const stamps = { ...changedAt.get(name) };
+    const next: Record<string, string> = {};
+    const now = Date.now();
+
+    Object.keys(policies).forEach((group) => {
+      next[group] = fingerprint(state, group);
+      if (next[group] !== previous[group] || !(group in stamps)) stamps[group] = now;
+    });
+
+    fingerprints.set(name, next);
+    changedAt.set(name, stamps);
+    return stamps;
+  };
+
+  const write = async (name: string, value: StorageValue<S>) => {
+    const stamps = stamp(name, value.state);
+    let quotaError: unknown = null;
+
+    for (let count = 0; count <= expirable.length; count++) {
+      const dropped = expirable.slice(0, count);
+      const changed = Object.fromEntries(Object.entries(stamps).filter(([group]) => !dropped.includes(group)));
+
+      try {
+        await storage.setItem(name, {
+          ...value,
+          state: omitGroups(value.state, dropped),
+          policy: { changedAt: changed, dropped }
+        } as PolicyStorageValue<S>);
+
+        const status = setStatus(name, { dropped, error: null });
+        if (dropped.length > 0) onWriteError?.(quotaError, status);
+        return;
+      } catch (error) {
+        // Anything but a full storage won't get better by writing less
+        if (!isQuotaExceededError(error) || count === expirable.length) {
+          onWriteError?.(error, setStatus(name, { dropped, error }));
+          // So callers, like the scheduler, don't take the state as saved
+          throw error;
+        }
+        quotaError = error;
+      }
+    }
+  };
+
+  return {
+    getItem: (name) => mapStored(
+      storage.getItem(name) as PolicyStorageValue<S> | null | Promise<PolicyStorageValue<S> | null>,
+      (stored) => restore(name, stored)
+    ),
+    setItem: write,
+    removeItem: (name) => {
+      fingerprints.delete(name);
+      changedAt.delete(name);
+      setStatus(name, INITIAL_STATUS);
+      return storage.removeItem(name);
+    },
+    peek: (name) => peekItem(storage, name)
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * The part of a persisted store's API `resetPersistedStore` relies on.
+ */
+export interface ResettableStore<S> {
+  getInitialState: () => S;
+  setState: (state: S, replace: true, action?: string) => void;
+  persist: {
+    clearStorage: () => void;
+    rehydrate: () => Promise<void> | void;
+  };
+}
+
+/**
+ * Wipes what `store` persisted and puts it back to `initialState`, by
+ * default the state the store was created with, without reloading the page.
+ * Hydration then runs again in place against the emptied storage, so
+ * `useHydrated`/`awaitHydration` go through their usual cycle and `merge`
+ * fills in its defaults.
+ */
+export async function resetPersistedStore<S>(
+  store: ResettableStore<S>,
+  initialState: S = store.getInitialState()
+): Promise<void> {
+  // Resetting before clearing lets the clear drop the write the reset scheduled
+  store.setState(initialState, true, 'persist/reset');
+  store.persist.clearStorage();
+  await store.persist.rehydrate();
+}
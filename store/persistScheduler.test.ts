@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import { createScheduledStorage, type PersistScheduleOptions } from './persistScheduler';
+
+type State = { count: number };
+
+const value = (count: number): StorageValue<State> => ({ state: { count }, version: 0 });
+
+function createScheduled(options: PersistScheduleOptions) {
+  const inner: PersistStorage<State> = {
+    getItem: vi.fn(() => null),
+    setItem: vi.fn(),
+    removeItem: vi.fn()
+  };
+  return { inner, storage: createScheduledStorage(inner, options)! };
+}
+
+const written = (inner: PersistStorage<State>) =>
+  vi.mocked(inner.setItem).mock.calls.map(([, { state }]) => state.count);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('scheduling', () => {
+  it('debounce writes the latest value once the store has been quiet for `wait`', () => {
+    const { inner, storage } = createScheduled({ mode: 'debounce', wait: 300 });
+
+    storage.setItem('state', value(1));
+    vi.advanceTimersByTime(200);
+    storage.setItem('state', value(2));
+    vi.advanceTimersByTime(200);
+    expect(written(inner)).toEqual([]);
+
+    vi.advanceTimersByTime(100);
+    expect(written(inner)).toEqual([2]);
+  });
+
+  it('throttle writes at most once per `wait`, including the latest value', () => {
+    const { inner, storage } = createScheduled({ mode: 'throttle', wait: 300 });
+
+    storage.setItem('state', value(1));
+    vi.advanceTimersByTime(200);
+    storage.setItem('state', value(2));
+    vi.advanceTimersByTime(100);
+    expect(written(inner)).toEqual([2]);
+
+    storage.setItem('state', value(3));
+    vi.advanceTimersByTime(299);
+    expect(written(inner)).toEqual([2]);
+    vi.advanceTimersByTime(1);
+    expect(written(inner)).toEqual([2, 3]);
+  });
+
+  it('idle writes when the browser is idle, no later than `wait`', () => {
+    const idle: { callback?: () => void; timeout?: number } = {};
+    vi.stubGlobal('requestIdleCallback', (callback: () => void, options: { timeout: number }) => {
+      idle.callback = callback;
+      idle.timeout = options.timeout;
+      return 1;
+    });
+    vi.stubGlobal('cancelIdleCallback', vi.fn());
+    const { inner, storage } = createScheduled({ mode: 'idle', wait: 1000 });
+
+    storage.setItem('state', value(1));
+    expect(idle.timeout).toBe(1000);
+    expect(written(inner)).toEqual([]);
+
+    idle.callback!();
+    expect(written(inner)).toEqual([1]);
+  });
+});
+
+describe('skipping unchanged values', () => {
+  it('drops a write shallowly equal to the last one', async () => {
+    const { inner, storage } = createScheduled({ mode: 'debounce', wait: 300 });
+
+    storage.setItem('state', value(1));
+    storage.flush();
+    await vi.runAllTimersAsync();
+    storage.setItem('state', value(1));
+    await vi.runAllTimersAsync();
+
+    expect(written(inner)).toEqual([1]);
+  });
+
+  it('writes a revert to the stored value while the newer write is in flight', async () => {
+    const { inner, storage } = createScheduled({ mode: 'debounce', wait: 300 });
+    storage.setItem('state', value(0));
+    storage.flush();
+    await vi.runAllTimersAsync();
+
+    let finishWrite!: () => void;
+    vi.mocked(inner.setItem).mockImplementationOnce(() => new Promise<void>((resolve) => {
+      finishWrite = resolve;
+    }));
+    storage.setItem('state', value(1));
+    storage.flush();
+    storage.setItem('state', value(0));
+    finishWrite();
+    await vi.runAllTimersAsync();
+
+    expect(written(inner)).toEqual([0, 1, 0]);
+  });
+
+  it('writes a value again when writing it failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { inner, storage } = createScheduled({ mode: 'debounce', wait: 300 });
+    vi.mocked(inner.setItem).mockRejectedValueOnce(new Error('Storage is unavailable'));
+
+    storage.setItem('state', value(1));
+    await vi.runAllTimersAsync();
+    storage.setItem('state', value(1));
+    await vi.runAllTimersAsync();
+
+    expect(written(inner)).toEqual([1, 1]);
+  });
+});
+
+describe('leaving the page', () => {
+  it('flushes pending writes before unload', () => {
+    const { inner, storage } = createScheduled({ mode: 'debounce', wait: 300 });
+
+    storage.setItem('state', value(1));
+    window.dispatchEvent(new Event('beforeunload'));
+
+    expect(written(inner)).toEqual([1]);
+  });
+
+  it('flushes pending writes when the page is hidden', () => {
+    const { inner, storage } = createScheduled({ mode: 'debounce', wait: 300 });
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+
+    storage.setItem('state', value(1));
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(written(inner)).toEqual([1]);
+  });
+
+  it('removes its listeners once disposed', () => {
+    const add = vi.spyOn(window, 'addEventListener');
+    const remove = vi.spyOn(window, 'removeEventListener');
+    const { inner, storage } = createScheduled({ mode: 'debounce', wait: 300 });
+
+    storage.setItem('state', value(1));
+    storage.dispose();
+    expect(written(inner)).toEqual([1]);
+    expect(remove.mock.calls).toEqual(add.mock.calls);
+
+    window.dispatchEvent(new Event('beforeunload'));
+    expect(written(inner)).toEqual([1]);
+  });
+});
@@ -0,0 +1,148 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import { shallow } from 'zustand/vanilla/shallow';
+import { mapStored, peekItem, type PeekableStorage } from './storage';
+
+/**
+ * - `debounce`: write once the store has been quiet for `wait` ms
+ * - `throttle`: write at most once every `wait` ms, always including the latest state
+ * - `idle`: write when the browser is idle, but no later than `wait` ms
+ */
+export type PersistScheduleMode = 'debounce' | 'throttle' | 'idle';
+
+export interface PersistScheduleOptions {
+  mode: PersistScheduleMode;
+  wait?: number;
+}
+
+export interface ScheduledPersistStorage<S> extends PeekableStorage<S> {
+  /** Writes pending values immediately */
+  flush: () => void;
+  /**
+   * Flushes before the store is discarded. The storage stays usable, since
+   * Strict Mode keeps using a store after its cleanup ran: a later write
+   * listens for the page being hidden again until it is flushed.
+   */
+  dispose: () => void;
+}
+
+function isUnchanged<S>(previous: StorageValue<S> | undefined, next: StorageValue<S>) {
+  return previous !== undefined
+    && previous.version === next.version
+    && shallow(previous.state, next.state);
+}
+
+/**
+ * Wraps a persist storage so that writes are batched instead of serializing
+ * the partialized state on every `set`. Writes whose partialized state is
+ * shallowly equal to the last one are dropped, and anything pending is
+ * flushed before the page is hidden or unloaded. `peek` reads what is in
+ * storage, not what is waiting to be written.
+ *
+ * The page listeners are only attached while something is pending, so a
+ * store that is no longer written to leaves none behind once it is flushed.
+ */
+export function createScheduledStorage<S>(
+  storage: PersistStorage<S> | undefined,
+  { mode, wait = 250 }: PersistScheduleOptions
+): ScheduledPersistStorage<S> | undefined {
+  if (!storage) return undefined;
+
+  const pending = new Map<string, StorageValue<S>>();
+  // Per name: the value of the latest write started while it is in flight,
+  // and of the latest one that succeeded
+  const writing = new Map<string, StorageValue<S>>();
+  const lastWritten = new Map<string, StorageValue<S>>();
+  let cancelScheduled: (() => void) | undefined;
+  let listening = false;
+
+  const flushWhenHidden = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+
+  const listen = (enabled: boolean) => {
+    if (enabled === listening || typeof window === 'undefined') return;
+    listening = enabled;
+
+    if (enabled) {
+      window.addEventListener('beforeunload', flush);
+      document.addEventListener('visibilitychange', flushWhenHidden);
+    } else {
+      window.removeEventListener('beforeunload', flush);
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+    }
+  };
+
+  const write = async (name: string, value: StorageValue<S>) => {
+    writing.set(name, value);
+    try {
+      await storage.setItem(name, value);
+      // An older write finishing late doesn't count as what is stored
+      if (writing.get(name) === value) {
+        writing.delete(name);
+        lastWritten.set(name, value);
+      }
+    } catch (error) {
+      // What was stored before is still there
+      if (writing.get(name) === value) writing.delete(name);
+      console.error('❌ Failed to save state:', error);
+    }
+  };
+
+  const flush = () => {
+    cancelScheduled?.();
+    cancelScheduled = undefined;
+    listen(false);
+
+    pending.forEach((value, name) => {
+      void write(name, value);
+    });
+    pending.clear();
+  };
+
+  const schedule = () => {
+    if (mode === 'debounce') {
+      cancelScheduled?.();
+    } else if (cancelScheduled) {
+      return;
+    }
+
+    if (mode === 'idle' && typeof requestIdleCallback !== 'undefined') {
+      const handle = requestIdleCallback(flush, { timeout: wait });
+      cancelScheduled = () => cancelIdleCallback(handle);
+    } else {
+      const handle = setTimeout(flush, wait);
+      cancelScheduled = () => clearTimeout(handle);
+    }
+    listen(true);
+  };
+
+  return {
+    getItem: (name) => {
+      const value = pending.get(name);
+      if (value) return value;
+
+      const remember = (stored: StorageValue<S> | null) => {
+        if (stored) lastWritten.set(name, stored);
+        return stored;
+      };
+
+      return mapStored(storage.getItem(name), remember);
+    },
+    setItem: (name, value) => {
+      // Compared with what storage will hold once the writes under way land
+      if (isUnchanged(pending.get(name) ?? writing.get(name) ?? lastWritten.get(name), value)) return;
+
+      pending.set(name, value);
+      schedule();
+    },
+    removeItem: (name) => {
+      pending.delete(name);
+      writing.delete(name);
+      lastWritten.delete(name);
+      return storage.removeItem(name);
+    },
+    peek: (name) => peekItem(storage, name),
+    flush,
+    dispose: flush
+  };
+}
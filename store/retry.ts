@@ -0,0 +1,51 @@
+export interface RetryOptions {
+  retries?: number;
+  /** Delay before the first retry; doubles on every further attempt */
+  baseDelay?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+function abortError() {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Runs `operation` until it succeeds, `shouldRetry` rejects the error or the
+ * retries are used up, waiting `baseDelay * 2^attempt` (with jitter) in between.
+ * Aborting `signal` stops immediately, including during a wait.
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  { retries = 3, baseDelay = 500, signal, shouldRetry = () => true }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || isAbortError(error) || !shouldRetry(error)) throw error;
+
+      await delay(baseDelay * 2 ** attempt * (0.5 + Math.random() / 2), signal);
+    }
+  }
+}
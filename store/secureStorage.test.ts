@@ -0,0 +1,75 @@
+// @vitest-environment node
+// jsdom typed arrays come from another realm, which Node's WebCrypto rejects
+import { beforeEach, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from './storage';
+import { DecryptionError, createSecureJSONStorage, type EncryptionKeyring } from './secureStorage';
+import { createPersistedStateRestorer } from './migrations';
+
+const createKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 128 }, false, ['encrypt', 'decrypt']);
+
+async function createSecureStorage(keyId: string) {
+  const keyring: EncryptionKeyring = { current: { id: keyId, key: await createKey() } };
+  return createSecureJSONStorage<{ count: number }>(() => backend, { getKeyring: async () => keyring, compress: false })!;
+}
+
+let backend = createMemoryStorage();
+
+beforeEach(() => {
+  backend = createMemoryStorage();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+it('writes only the newest of values set before encryption finishes', async () => {
+  const storage = await createSecureStorage('k1');
+  const setItem = vi.spyOn(backend, 'setItem');
+
+  await Promise.all([1, 2, 3].map((count) => storage.setItem('state', { state: { count }, version: 0 })));
+
+  expect(setItem).toHaveBeenCalledTimes(1);
+  expect(await storage.getItem('state')).toEqual({ state: { count: 3 }, version: 0 });
+});
+
+it('drops a write still encrypting when the item is removed', async () => {
+  const storage = await createSecureStorage('k1');
+  const encrypt = crypto.subtle.encrypt.bind(crypto.subtle);
+  vi.spyOn(crypto.subtle, 'encrypt').mockImplementationOnce((...args) => {
+    void storage.removeItem('state');
+    return encrypt(...args);
+  });
+
+  await storage.setItem('state', { state: { count: 1 }, version: 0 });
+  expect(backend.getItem('state')).toBeNull();
+
+  await storage.setItem('state', { state: { count: 2 }, version: 0 });
+  expect(await storage.getItem('state')).toEqual({ state: { count: 2 }, version: 0 });
+});
+
+it('quarantines a payload under an unknown key before rejecting', async () => {
+  await (await createSecureStorage('old')).setItem('state', { state: { count: 7 }, version: 0 });
+  const stored = backend.getItem('state') as string;
+
+  await expect((await createSecureStorage('new')).getItem('state')).rejects.toBeInstanceOf(DecryptionError);
+  expect(JSON.parse(backend.getItem('state:quarantine') as string)).toMatchObject({
+    envelope: JSON.parse(stored),
+    reason: 'No key "old" in the keyring'
+  });
+});
+
+it('encrypts payloads the restorer quarantines', async () => {
+  const keyring: EncryptionKeyring = { current: { id: 'k1', key: await createKey() } };
+  const storage = createSecureJSONStorage<unknown>(() => backend, { getKeyring: async () => keyring, compress: false });
+  const { migrate } = createPersistedStateRestorer({ storageKey: 'state', storage });
+  const unreadable = { commentsById: { 1: { email: 'user1@example.com' } }, shiny: true };
+
+  migrate(unreadable, 99);
+
+  await vi.waitFor(() => expect(backend.getItem('state:quarantine')).not.toBeNull());
+  const stored = backend.getItem('state:quarantine') as string;
+  expect(stored).not.toContain('user1@example.com');
+  expect(JSON.parse(stored)).toMatchObject({ format: 'aes-gcm', kid: 'k1' });
+  expect(await storage!.getItem('state:quarantine')).toMatchObject({
+    state: unreadable,
+    version: 99,
+    reason: 'Unknown persisted state version 99'
+  });
+});
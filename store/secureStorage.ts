@@ -0,0 +1,247 @@
+import type { StateStorage, StorageValue } from 'zustand/middleware';
+import type { PeekableStorage } from './storage';
+
+export interface EncryptionKey {
+  id: string;
+  key: CryptoKey;
+}
+
+export interface EncryptionKeyring {
+  /** Encrypts every write */
+  current: EncryptionKey;
+  /** Retired keys, still accepted for decryption until the data is rewritten */
+  previous?: EncryptionKey[];
+}
+
+export interface SecureStorageOptions {
+  getKeyring: () => Promise<EncryptionKeyring>;
+  /** Gzip the payload before encrypting it, where CompressionStream exists */
+  compress?: boolean;
+}
+
+// What actually lands in storage
+interface EncryptedEnvelope {
+  format: 'aes-gcm';
+  kid: string;
+  iv: string;
+  gzip: boolean;
+  data: string;
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string, readonly keyId?: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function pipe(buffer: ArrayBuffer, stream: CompressionStream | DecompressionStream): Promise<ArrayBuffer> {
+  return new Response(new Blob([buffer]).stream().pipeThrough(stream)).arrayBuffer();
+}
+
+function isEnvelope(value: unknown): value is EncryptedEnvelope {
+  return typeof value === 'object' && value !== null && (value as EncryptedEnvelope).format === 'aes-gcm';
+}
+
+/**
+ * Imports a base64-encoded raw AES key (128 or 256 bit) for the keyring.
+ */
+export function importAesKey(rawBase64: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(rawBase64), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Parses `"<id>:<base64 key>"` pairs separated by commas, newest first, into
+ * a lazily imported keyring. The first key encrypts, the rest only decrypt.
+ */
+export function parseKeyring(encodedKeys: string): () => Promise<EncryptionKeyring> {
+  let keyring: Promise<EncryptionKeyring> | undefined;
+
+  return () => {
+    keyring ??= Promise.all(
+      encodedKeys.split(',').map(async (entry) => {
+        const [id, rawKey] = entry.trim().split(':');
+        return { id, key: await importAesKey(rawKey) };
+      })
+    ).then(([current, ...previous]) => ({ current, previous }));
+
+    return keyring;
+  };
+}
+
+/**
+ * A PersistStorage that stores each `{ state, version }` value as an
+ * AES-GCM encrypted (and optionally gzipped) envelope. The version stays
+ * inside the ciphertext, so `version`/`migrate` run exactly as before once
+ * the payload is decrypted.
+ *
+ * Plaintext payloads written before encryption was enabled are still read,
+ * and payloads under a retired key are re-encrypted with the current key as
+ * soon as they are read. Anything that cannot be decrypted is copied to
+ * `<name>:quarantine`, since the next write would replace it, and rejects
+ * `getItem`, which persist reports through `onRehydrateStorage`.
+ *
+ * Encryption starts as soon as `setItem` is called rather than behind a
+ * debounce, because an unload can't wait for it to finish. Values set while
+ * an earlier one is being encrypted are coalesced into a single write of the
+ * newest.
+ *
+ * The keys only protect data at rest from other readers of the storage;
+ * anyone who can run the app has them, so this is obfuscation, not secrecy.
+ */
+export function createSecureJSONStorage<S>(
+  getStorage: () => StateStorage,
+  { getKeyring, compress = true }: SecureStorageOptions
+): PeekableStorage<S> | undefined {
+  let storage: StateStorage;
+  try {
+    storage = getStorage();
+  } catch {
+    // Same contract as createJSONStorage: no storage during SSR
+    return undefined;
+  }
+
+  const encrypt = async (value: StorageValue<S>): Promise<EncryptedEnvelope> => {
+    const { current } = await getKeyring();
+    const gzip = compress && typeof CompressionStream !== 'undefined';
+    let plaintext = new TextEncoder().encode(JSON.stringify(value)).buffer;
+    if (gzip) plaintext = await pipe(plaintext, new CompressionStream('gzip'));
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, current.key, plaintext);
+
+    return {
+      format: 'aes-gcm',
+      kid: current.id,
+      iv: toBase64(iv.buffer),
+      gzip,
+      data: toBase64(ciphertext)
+    };
+  };
+
+  const decrypt = async (envelope: EncryptedEnvelope): Promise<StorageValue<S>> => {
+    const { current, previous = [] } = await getKeyring();
+    const key = [current, ...previous].find(({ id }) => id === envelope.kid);
+    if (!key) {
+      throw new DecryptionError(`No key "${envelope.kid}" in the keyring`, envelope.kid);
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+        key.key,
+        fromBase64(envelope.data)
+      );
+    } catch {
+      throw new DecryptionError('Persisted state failed authentication', envelope.kid);
+    }
+
+    if (envelope.gzip) plaintext = await pipe(plaintext, new DecompressionStream('gzip'));
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  };
+
+  const quarantine = async (name: string, envelope: EncryptedEnvelope, error: DecryptionError) => {
+    console.warn(`⚠️ Quarantining undecryptable "${name}" payload:`, error);
+    try {
+      await storage.setItem(`${name}:quarantine`, JSON.stringify({
+        envelope,
+        reason: error.message,
+        quarantinedAt: new Date().toISOString()
+      }));
+    } catch (storageError) {
+      console.error('❌ Failed to quarantine persisted state:', storageError);
+    }
+  };
+
+  // Per name: the newest value not yet being encrypted, the write chain it
+  // joins, and how often it was removed
+  const latest = new Map<string, StorageValue<S>>();
+  const writes = new Map<string, Promise<void>>();
+  const removals = new Map<string, number>();
+
+  const writeLatest = async (name: string) => {
+    const value = latest.get(name);
+    // Already written by an earlier caller's turn
+    if (!value) return;
+
+    latest.delete(name);
+    const removed = removals.get(name);
+    const encrypted = JSON.stringify(await encrypt(value));
+    // Removed while encrypting, e.g. by Clear Storage: the value is out of date
+    if (removals.get(name) !== removed) return;
+    await storage.setItem(name, encrypted);
+  };
+
+  const secureStorage: PeekableStorage<S> = {
+    getItem: async (name) => {
+      const raw = await storage.getItem(name);
+      if (raw === null) return null;
+
+      const parsed: unknown = JSON.parse(raw);
+      if (!isEnvelope(parsed)) {
+        // Written before encryption was turned on; the next write encrypts it
+        return parsed as StorageValue<S>;
+      }
+
+      let value: StorageValue<S>;
+      try {
+        value = await decrypt(parsed);
+      } catch (error) {
+        if (error instanceof DecryptionError) await quarantine(name, parsed, error);
+        throw error;
+      }
+
+      const { current } = await getKeyring();
+      if (parsed.kid !== current.id) {
+        await secureStorage.setItem(name, value);
+      }
+      return value;
+    },
+    setItem: (name, value) => {
+      latest.set(name, value);
+
+      const write = (writes.get(name) ?? Promise.resolve())
+        .catch(() => {})
+        .then(() => writeLatest(name));
+      writes.set(name, write);
+      void write.catch(() => {}).then(() => {
+        if (writes.get(name) === write) writes.delete(name);
+      });
+
+      return write;
+    },
+    removeItem: (name) => {
+      latest.delete(name);
+      removals.set(name, (removals.get(name) ?? 0) + 1);
+      return storage.removeItem(name);
+    },
+    // Decrypts without quarantining or re-encrypting
+    peek: async (name) => {
+      const raw = await storage.getItem(name);
+      if (raw === null) return null;
+
+      const parsed: unknown = JSON.parse(raw);
+      return isEnvelope(parsed) ? decrypt(parsed) : parsed as StorageValue<S>;
+    }
+  };
+
+  return secureStorage;
+}
@@ -0,0 +1,89 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AppStoreProvider, useAppStoreApi } from './AppStoreProvider';
+import useAppStore, { useAppStorePick } from './useAppStore';
+import { useHydrated } from './hydration';
+import type { AppStore } from './createAppStore';
+import { selectCommentsByPost, selectCounterTotal, selectCounters, selectFilteredComments } from './selectors';
+import { DEFAULT_COUNTER_ID } from './slices/counterSlice';
+import { setUpTestAppStores, testComment } from './testing';
+
+// Unmounting a provider writes what its store still has pending, so each test
+// unmounts its own before localStorage is cleared for the next
+const unmounts: (() => void)[] = [];
+
+// Renders `useValue` in a provided store and counts the renders after hydration
+async function renderCounted<T>(useValue: () => T) {
+  let renders = 0;
+  let store!: AppStore;
+  const { result, unmount } = renderHook(() => {
+    renders++;
+    store = useAppStoreApi();
+    return { value: useValue(), hydrated: useHydrated(store) };
+  }, {
+    wrapper: ({ children }) => (
+      <AppStoreProvider initialState={{ commentsById: { 1: testComment(1) }, commentIds: [1] }}>{children}</AppStoreProvider>
+    )
+  });
+  unmounts.push(unmount);
+  await waitFor(() => expect(result.current.hydrated).toBe(true));
+  renders = 0;
+
+  return { result, store, renders: () => renders };
+}
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+afterEach(() => {
+  unmounts.splice(0).forEach((unmount) => unmount());
+  window.localStorage.clear();
+});
+
+describe('selectors', () => {
+  it('counter selectors ignore comment updates', async () => {
+    const { store, renders } = await renderCounted(() => [useAppStore(selectCounters), useAppStore(selectCounterTotal)]);
+
+    act(() => store.getState().setCommentQuery({ search: 'body' }));
+    act(() => store.getState().clearComments());
+    expect(renders()).toBe(0);
+
+    act(() => store.getState().increment(DEFAULT_COUNTER_ID));
+    expect(renders()).toBe(1);
+  });
+
+  it('comment selectors ignore counter updates', async () => {
+    const { store, renders } = await renderCounted(() => [
+      useAppStore(selectFilteredComments),
+      useAppStore(selectCommentsByPost(1)),
+      useAppStore(selectCommentsByPost(2))
+    ]);
+
+    act(() => store.getState().increment(DEFAULT_COUNTER_ID));
+    act(() => store.getState().createCounter('Laps'));
+    expect(renders()).toBe(0);
+
+    act(() => store.getState().setCommentQuery({ search: 'body' }));
+    expect(renders()).toBe(1);
+  });
+});
+
+describe('useAppStorePick', () => {
+  it('never re-renders for actions alone', async () => {
+    const { store, renders } = await renderCounted(() => useAppStorePick('increment', 'decrement', 'setCommentQuery'));
+
+    act(() => store.getState().increment(DEFAULT_COUNTER_ID));
+    act(() => store.getState().setCommentQuery({ search: 'body' }));
+    expect(renders()).toBe(0);
+  });
+
+  it('re-renders only when a picked field changes', async () => {
+    const { store, result, renders } = await renderCounted(() => useAppStorePick('counters', 'increment'));
+
+    act(() => store.getState().setCommentQuery({ search: 'body' }));
+    expect(renders()).toBe(0);
+
+    act(() => store.getState().increment(DEFAULT_COUNTER_ID));
+    expect(renders()).toBe(1);
+    expect(result.current.value.counters[DEFAULT_COUNTER_ID].count).toBe(1);
+  });
+});
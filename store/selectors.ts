@@ -0,0 +1,108 @@
+import type { AppState, Comment, CommentQuery, NamedCounter } from '@/types/store';
+import { getEmailDomain, queryComments } from './commentQuery';
+
+type Selector<R> = (state: AppState) => R;
+
+/**
+ * Builds a selector that recomputes `combine` only when one of its inputs
+ * changes (by reference), and otherwise returns the previous result. Stable
+ * results are what let components subscribe to derived data without
+ * re-rendering on every store update.
+ */
+export function createSelector<Inputs extends unknown[], R>(
+  inputs: { [I in keyof Inputs]: Selector<Inputs[I]> },
+  combine: (...values: Inputs) => R
+): Selector<R> {
+  let cache: { values: Inputs; result: R } | null = null;
+
+  return (state) => {
+    const values = inputs.map((input) => input(state)) as Inputs;
+    if (!cache || values.some((value, index) => !Object.is(value, cache!.values[index]))) {
+      cache = { values, result: combine(...values) };
+    }
+    return cache.result;
+  };
+}
+
+// Counters
+
+const selectCounterMap: Selector<Record<string, NamedCounter>> = (state) => state.counters;
+const selectCounterIds: Selector<string[]> = (state) => state.counterIds;
+
+export const selectCounters = createSelector(
+  [selectCounterMap, selectCounterIds],
+  (counters, counterIds) => counterIds.map((id) => counters[id])
+);
+
+export const selectCounter = (id: string): Selector<NamedCounter | undefined> => (state) => state.counters[id];
+
+export const selectCounterError = (id: string): Selector<string | undefined> => (state) => state.counterErrors[id];
+
+/** Sum of all counters */
+export const selectCounterTotal = createSelector([selectCounters], (counters) =>
+  counters.reduce((total, { count }) => total + count, 0)
+);
+
+/** Highest count, or null without counters */
+export const selectCounterMax = createSelector([selectCounters], (counters) =>
+  counters.length > 0 ? Math.max(...counters.map(({ count }) => count)) : null
+);
+
+// Comments
+
+const selectCommentsById: Selector<Record<number, Comment>> = (state) => state.commentsById;
+const selectCommentIds: Selector<number[]> = (state) => state.commentIds;
+
+export const selectCommentCount: Selector<number> = (state) => state.commentIds.length;
+
+export const selectComments = createSelector(
+  [selectCommentsById, selectCommentIds],
+  (commentsById, commentIds) => commentIds.map((id) => commentsById[id])
+);
+
+const selectCommentsGroupedByPost = createSelector([selectComments], (comments) => {
+  const grouped = new Map<number, Comment[]>();
+  comments.forEach((comment) => {
+    grouped.set(comment.postId, [...(grouped.get(comment.postId) ?? []), comment]);
+  });
+  return grouped;
+});
+
+const noComments: Comment[] = [];
+
+export const selectCommentsByPost = (postId: number): Selector<Comment[]> => (state) =>
+  selectCommentsGroupedByPost(state).get(postId) ?? noComments;
+
+/** Number of loaded comments per post id */
+export const selectCommentCountsByPost = createSelector([selectCommentsGroupedByPost], (grouped) =>
+  Object.fromEntries([...grouped].map(([postId, comments]) => [postId, comments.length])) as Record<number, number>
+);
+
+/** Distinct commenter emails, in the order they first appear */
+export const selectUniqueCommenters = createSelector([selectComments], (comments) =>
+  [...new Set(comments.map((comment) => comment.email))]
+);
+
+// Comment query
+
+export const selectCommentQuery: Selector<CommentQuery> = (state) => state.commentQuery;
+
+/** Loaded comments (persisted or fetched) after search, filters and sorting */
+export const selectFilteredComments = createSelector([selectComments, selectCommentQuery], queryComments);
+
+/** Post ids present in the loaded comments, ascending, for the post filter */
+export const selectCommentPostIds = createSelector([selectCommentCountsByPost], (counts) =>
+  Object.keys(counts).map(Number).sort((a, b) => a - b)
+);
+
+/** Email domains present in the loaded comments, sorted, for the domain filter */
+export const selectCommentEmailDomains = createSelector([selectComments], (comments) =>
+  [...new Set(comments.map((comment) => getEmailDomain(comment.email)))].sort()
+);
+
+// Cross-slice
+
+export const selectCounterSummary = createSelector(
+  [selectCounters, selectCounterTotal, selectCommentCount],
+  (counters, total, commentCount) => `Counters: ${counters.length} (total ${total}) | Comments: ${commentCount}`
+);
@@ -0,0 +1,28 @@
+import type { AppSliceCreator, AppState, BackupState, PersistedState } from '@/types/store';
+import { createBackup, mergePersistedState, restoreBackup } from '../backup';
+import { normalizeCount } from '../counterRules';
+
+/**
+ * Export and import of the persisted state as a backup file. `storageKey`
+ * labels exported backups; `selectPersistedState` picks the same fields
+ * persist writes.
+ */
+export const createBackupSlice = (
+  storageKey: string,
+  selectPersistedState: (state: AppState) => PersistedState
+): AppSliceCreator<BackupState> => (set, get) => ({
+  exportBackup: () => createBackup(storageKey, selectPersistedState(get())),
+
+  importBackup: (backup, mode) => {
+    const imported = restoreBackup(backup);
+    const next = mode === 'replace' ? imported : mergePersistedState(selectPersistedState(get()), imported);
+    // The backup may have been written under other counter constraints
+    const counters = Object.fromEntries(Object.entries(next.counters).map(([id, counter]) => (
+      [id, { ...counter, count: normalizeCount(counter.count, get().counterConstraints) }]
+    )));
+
+    set({ ...next, counters, counterErrors: {}, commentSync: {} }, false, `importBackup/${mode}`);
+    // Changes queued in the other browser are sent from this one now
+    if (next.outbox.length > 0) void get().replayOutbox();
+  }
+});
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PersistedState } from '@/types/store';
+import { createTestAppStore, jsonResponse, setUpTestAppStores, testComment, type FetchStubRoute } from '../testing';
+import { syncAcrossTabs } from '../crossTabSync';
+import { normalizeComments } from './commentsSlice';
+
+// Both tabs restored the same outbox from shared storage
+const sharedState: Partial<PersistedState> = {
+  commentsById: {},
+  commentIds: [],
+  outbox: [{ type: 'delete', id: 1, previous: testComment(1) }]
+};
+
+// Takes a moment, like a real request, so the other tab hears about each step
+const slowDelete: FetchStubRoute = {
+  method: 'DELETE',
+  path: '/comments/1',
+  respond: () => new Promise((resolve) => setTimeout(() => resolve(new Response(null, { status: 200 })), 20))
+};
+
+// An in-process stand-in for the Web Locks API, shared by both "tabs"
+function installLocks() {
+  const queues = new Map<string, Promise<unknown>>();
+  const locks = {
+    request: (name: string, task: () => Promise<unknown>) => {
+      const run = (queues.get(name) ?? Promise.resolve()).then(task);
+      queues.set(name, run.catch(() => {}));
+      return run;
+    }
+  };
+  Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+  return () => Reflect.deleteProperty(navigator, 'locks');
+}
+
+let uninstallLocks: () => void;
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+beforeEach(() => {
+  uninstallLocks = installLocks();
+});
+
+afterEach(() => {
+  uninstallLocks();
+});
+
+it('sends a shared outbox entry from only one tab', async () => {
+  const tabs = [1, 2].map(() => createTestAppStore({ initialState: sharedState, routes: [slowDelete] }));
+  const stopSyncing = tabs.map(({ store }) => syncAcrossTabs(store, {
+    name: 'outbox-test',
+    fields: ['commentsById', 'commentIds', 'outbox'],
+    policy: 'per-field'
+  }));
+
+  await Promise.all(tabs.map(({ store }) => store.getState().replayOutbox()));
+
+  const deletes = tabs.flatMap(({ fetchStub }) => fetchStub.requests).filter(({ method }) => method === 'DELETE');
+  expect(deletes).toHaveLength(1);
+  tabs.forEach(({ store }) => expect(store.getState().outbox).toEqual([]));
+  stopSyncing.forEach((stop) => stop());
+});
+
+describe('changes made while a create is in flight', () => {
+  // Answers the POST only once `answer` is called
+  function createDeferredPost() {
+    let answer!: () => void;
+    const answered = new Promise<void>((resolve) => {
+      answer = resolve;
+    });
+    const route: FetchStubRoute = {
+      method: 'POST',
+      path: '/comments',
+      respond: async (request) => {
+        const draft = await request.json();
+        await answered;
+        return jsonResponse({ ...draft, id: 501 });
+      }
+    };
+    return { route, answer };
+  }
+
+  const draft = { postId: 1, name: 'New', email: 'new@example.com', body: 'First draft' };
+  const echo: FetchStubRoute['respond'] = async (request) => jsonResponse(await request.json());
+
+  it('sends an edit with the server id once the create is answered', async () => {
+    const post = createDeferredPost();
+    const { store, fetchStub } = createTestAppStore({
+      routes: [post.route, { method: 'PUT', path: '/comments/501', respond: echo }]
+    });
+
+    const creating = store.getState().addComment(draft);
+    await store.getState().editComment(-1, { body: 'Edited' });
+    post.answer();
+    await creating;
+    await vi.waitFor(() => expect(store.getState().outbox).toEqual([]));
+
+    expect(fetchStub.requests.map(({ method, url }) => `${method} ${new URL(url).pathname}`))
+      .toEqual(['POST /comments', 'PUT /comments/501']);
+    expect(store.getState().commentIds).toEqual([501]);
+    expect(store.getState().commentsById[501].body).toBe('Edited');
+    expect(store.getState().commentSync).toEqual({});
+  });
+
+  it('deletes the created comment once the create is answered', async () => {
+    const post = createDeferredPost();
+    const { store, fetchStub } = createTestAppStore({
+      routes: [post.route, { method: 'DELETE', path: '/comments/501', respond: () => new Response(null, { status: 200 }) }]
+    });
+
+    const creating = store.getState().addComment(draft);
+    await store.getState().deleteComment(-1);
+    post.answer();
+    await creating;
+    await vi.waitFor(() => expect(store.getState().outbox).toEqual([]));
+
+    expect(fetchStub.requests.map(({ method, url }) => `${method} ${new URL(url).pathname}`))
+      .toEqual(['POST /comments', 'DELETE /comments/501']);
+    expect(store.getState().commentIds).toEqual([]);
+    expect(store.getState().commentSync).toEqual({});
+  });
+
+  it('keeps a new comment that a revalidation fetched without', async () => {
+    const post = createDeferredPost();
+    const { store } = createTestAppStore({
+      initialState: { ...normalizeComments([testComment(1), testComment(2)]), page: 1, hasMore: false, lastFetchedAt: 0 },
+      routes: [post.route, { path: /^\/comments\?_page=1/, respond: () => jsonResponse([testComment(1), testComment(2)]) }]
+    });
+
+    const creating = store.getState().addComment(draft);
+    await store.getState().revalidateComments();
+    expect(store.getState().commentIds).toEqual([1, 2, -1]);
+
+    post.answer();
+    await creating;
+
+    expect(store.getState().commentIds).toEqual([1, 2, 501]);
+    expect(store.getState().commentsById[501]).toMatchObject({ ...draft, id: 501 });
+  });
+});
@@ -0,0 +1,292 @@
+import type {
+  AppSliceCreator,
+  Comment,
+  CommentMutationsState,
+  CommentSyncStatus,
+  QueuedCommentMutation
+} from '@/types/store';
+import { NetworkError, type ApiClient } from '../apiClient';
+import type { FlowAction } from '../actionLog';
+import { enqueueMutation, insertComment, removeComment } from '../commentOutbox';
+
+export const initialCommentMutationsState = {
+  commentSync: {} as Record<number, CommentSyncStatus>,
+  outbox: [] as QueuedCommentMutation[]
+};
+
+// Devtools action names, e.g. 'addComment/optimistic'
+const actionNames: Record<QueuedCommentMutation['type'], string> = {
+  create: 'addComment',
+  update: 'editComment',
+  delete: 'deleteComment'
+};
+
+// One flow per comment, so overlapping changes to different comments are
+// logged apart, e.g. { type: 'editComment/success', flow: 3 }
+const flowAction = (type: QueuedCommentMutation['type'], id: number, phase: string): FlowAction => ({
+  type: `${actionNames[type]}/${phase}`,
+  flow: id
+});
+
+function withSync(
+  commentSync: Record<number, CommentSyncStatus>,
+  id: number,
+  status: CommentSyncStatus | null
+): Record<number, CommentSyncStatus> {
+  const next = { ...commentSync };
+  if (status) {
+    next[id] = status;
+  } else {
+    delete next[id];
+  }
+  return next;
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// Puts a mutation that never reached the server back at the head of the
+// queue, folding in whatever was queued for the same comment meanwhile
+const requeue = (outbox: QueuedCommentMutation[], mutation: QueuedCommentMutation) =>
+  outbox.reduce(enqueueMutation, [mutation]);
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'An error occurred';
+
+// Runs `task` while holding the Web Lock `name`, which every tab of the
+// origin shares; without the Locks API (or a name) it just runs
+async function withLock(name: string | undefined, task: () => Promise<void>): Promise<void> {
+  if (!name || typeof navigator === 'undefined' || !navigator.locks) return task();
+  await navigator.locks.request(name, task);
+}
+
+/**
+ * Create, edit and delete comments optimistically: each change is applied to
+ * the normalized comments right away, then sent to the API. A rejected change
+ * is rolled back and its error kept in `commentSync` for the UI. Changes made
+ * offline (or whose request never reached the server) wait in the persisted
+ * `outbox` until `replayOutbox` sends them.
+ *
+ * A change to a comment whose previous change is still in flight queues
+ * behind it, so it is sent after (and, for a new comment, with the id)
+ * the server answers with.
+ *
+ * Open tabs share the outbox (see syncAcrossTabs), so their replays take
+ * turns holding the `outboxLock` Web Lock: a tab sends only what is still
+ * queued once the tab before it has finished, and nothing goes out twice.
+ */
+export const createCommentMutationsSlice = (
+  api: ApiClient,
+  outboxLock?: string
+): AppSliceCreator<CommentMutationsState> => (set, get, store) => {
+  let replaying: Promise<void> | null = null;
+  // Ids with a request on its way from this tab
+  const inFlight = new Set<number>();
+
+  // Changes this tab queued may be sent by another one; once they leave the
+  // shared outbox they aren't waiting here either
+  store.subscribe((state, previousState) => {
+    // Synchronous rehydration runs before the store has a previous state
+    if (!previousState || state.outbox === previousState.outbox) return;
+
+    const sent = Object.keys(state.commentSync).map(Number).filter((id) =>
+      state.commentSync[id].state === 'queued' && !state.outbox.some((mutation) => mutation.id === id));
+    if (sent.length === 0) return;
+
+    set((current) => ({
+      commentSync: sent.reduce((commentSync, id) => withSync(commentSync, id, null), current.commentSync)
+    }), false, 'replayOutbox/sentElsewhere');
+  });
+
+  // Comments created locally get negative ids until the server assigns one
+  const nextTempId = () => Math.min(0, ...get().commentIds, ...get().outbox.map(({ id }) => id)) - 1;
+
+  const send = (mutation: QueuedCommentMutation): Promise<Comment | void> => {
+    switch (mutation.type) {
+      case 'create':
+        return api.createComment(mutation.draft);
+      case 'update':
+        // Send the whole comment as it is now, including later local edits
+        return api.updateComment(get().commentsById[mutation.id] ?? { ...mutation.previous, ...mutation.changes });
+      case 'delete':
+        return api.deleteComment(mutation.id);
+    }
+  };
+
+  const queue = (mutation: QueuedCommentMutation) => {
+    set((state) => {
+      const outbox = enqueueMutation(state.outbox, mutation);
+      const stillQueued = outbox.some(({ id }) => id === mutation.id);
+      return {
+        outbox,
+        commentSync: withSync(state.commentSync, mutation.id, stillQueued
+          ? { state: 'queued', type: outbox.find(({ id }) => id === mutation.id)!.type }
+          : null)
+      };
+    }, false, flowAction(mutation.type, mutation.id, 'queued'));
+  };
+
+  const commit = (mutation: QueuedCommentMutation, result: Comment | void) => {
+    set((state) => {
+      let collection = { commentsById: state.commentsById, commentIds: state.commentIds };
+      let { outbox } = state;
+
+      if (mutation.type === 'create' && result) {
+        // Swap the temporary id for the server's, wherever it is referenced,
+        // inserting the comment if a refetch dropped it (but not if it is
+        // being deleted). Edits queued meanwhile stay applied, and roll back
+        // to what the server saved
+        const waiting = outbox.find((entry) => entry.id === mutation.id);
+        if (waiting?.type !== 'delete') {
+          collection = insertComment(removeComment(collection, mutation.id), {
+            ...result,
+            ...(waiting?.type === 'update' ? waiting.changes : {})
+          });
+        }
+        outbox = outbox.map((entry) => entry === waiting ? { ...entry, id: result.id, previous: result } : entry);
+      } else if (mutation.type === 'update' && result && result.id in collection.commentsById) {
+        collection = insertComment(collection, result);
+      }
+
+      // Changes made while this one was in flight now wait under the final id
+      const id = mutation.type === 'create' && result ? result.id : mutation.id;
+      const queued = outbox.find((entry) => entry.id === id);
+      return {
+        ...collection,
+        outbox,
+        commentSync: withSync(
+          withSync(state.commentSync, mutation.id, null),
+          id,
+          queued ? { state: 'queued', type: queued.type } : null
+        )
+      };
+    }, false, flowAction(mutation.type, mutation.id, 'success'));
+  };
+
+  const rollback = (mutation: QueuedCommentMutation, error: unknown) => {
+    console.error(`❌ ${actionNames[mutation.type]} failed, rolling back:`, error);
+
+    set((state) => {
+      const collection = { commentsById: state.commentsById, commentIds: state.commentIds };
+      return {
+        ...(mutation.type === 'create'
+          ? removeComment(collection, mutation.id)
+          : insertComment(collection, mutation.previous)),
+        // Changes queued behind a rejected create refer to a comment that never existed
+        outbox: mutation.type === 'create'
+          ? state.outbox.filter(({ id }) => id !== mutation.id)
+          : state.outbox,
+        commentSync: withSync(state.commentSync, mutation.id, {
+          state: 'failed',
+          type: mutation.type,
+          error: errorMessage(error)
+        })
+      };
+    }, false, flowAction(mutation.type, mutation.id, 'rollback'));
+  };
+
+  // Sends a mutation that is already applied locally. Resolves false when it
+  // never reached the server and should stay queued
+  const sync = async (mutation: QueuedCommentMutation): Promise<boolean> => {
+    inFlight.add(mutation.id);
+    try {
+      commit(mutation, await send(mutation));
+    } catch (error) {
+      if (error instanceof NetworkError) return false;
+      rollback(mutation, error);
+    } finally {
+      inFlight.delete(mutation.id);
+    }
+    return true;
+  };
+
+  const run = async (mutation: QueuedCommentMutation) => {
+    // Anything already waiting has to go first, and so does a request for
+    // the same comment still on its way, so queue behind them
+    if (isOffline() || get().outbox.length > 0 || inFlight.has(mutation.id)) {
+      queue(mutation);
+      if (!isOffline()) await get().replayOutbox();
+      return;
+    }
+
+    set((state) => ({
+      commentSync: withSync(state.commentSync, mutation.id, { state: 'pending', type: mutation.type })
+    }), false, flowAction(mutation.type, mutation.id, 'pending'));
+
+    if (!(await sync(mutation))) {
+      set((state) => ({
+        outbox: requeue(state.outbox, mutation),
+        commentSync: withSync(state.commentSync, mutation.id, { state: 'queued', type: mutation.type })
+      }), false, flowAction(mutation.type, mutation.id, 'queued'));
+      return;
+    }
+    // Changes queued behind this one can go now
+    if (get().outbox.length > 0) await get().replayOutbox();
+  };
+
+  // Without a queued create, a temporary id means the create is in flight,
+  // possibly from another tab
+  const isBlocked = (mutation: QueuedCommentMutation) =>
+    inFlight.has(mutation.id) || (mutation.id < 0 && mutation.type !== 'create');
+
+  const replay = async () => {
+    while (!isOffline()) {
+      // The outbox holds one entry per comment, so skipping one waiting for
+      // its comment's request in flight (whose sender replays again when it
+      // is done) keeps every comment's changes in order
+      const mutation = get().outbox.find((entry) => !isBlocked(entry));
+      if (!mutation) return;
+
+      // Taken off the queue while in flight, so edits made meanwhile queue
+      // behind it instead of being folded into a request already sent
+      set((state) => ({
+        outbox: state.outbox.filter((entry) => entry !== mutation),
+        commentSync: withSync(state.commentSync, mutation.id, { state: 'pending', type: mutation.type })
+      }), false, 'replayOutbox/send');
+
+      if (!(await sync(mutation))) {
+        set((state) => ({
+          outbox: requeue(state.outbox, mutation),
+          commentSync: withSync(state.commentSync, mutation.id, { state: 'queued', type: mutation.type })
+        }), false, 'replayOutbox/offline');
+        return;
+      }
+    }
+  };
+
+  return {
+    ...initialCommentMutationsState,
+
+    addComment: (draft) => {
+      const comment = { ...draft, id: nextTempId() };
+      set((state) => insertComment(state, comment), false, flowAction('create', comment.id, 'optimistic'));
+      return run({ type: 'create', id: comment.id, draft });
+    },
+
+    editComment: (id, changes) => {
+      const previous = get().commentsById[id];
+      if (!previous) return Promise.resolve();
+
+      set((state) => insertComment(state, { ...previous, ...changes }), false, flowAction('update', id, 'optimistic'));
+      return run({ type: 'update', id, changes, previous });
+    },
+
+    deleteComment: (id) => {
+      const previous = get().commentsById[id];
+      if (!previous) return Promise.resolve();
+
+      set((state) => removeComment(state, id), false, flowAction('delete', id, 'optimistic'));
+      return run({ type: 'delete', id, previous });
+    },
+
+    replayOutbox: () => {
+      // Share a running replay so nothing is sent twice
+      replaying ??= withLock(outboxLock, replay).finally(() => {
+        replaying = null;
+      });
+      return replaying;
+    },
+
+    dismissCommentError: (id) => set((state) => ({
+      commentSync: withSync(state.commentSync, id, null)
+    }), false, 'dismissCommentError')
+  };
+};
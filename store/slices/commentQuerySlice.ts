@@ -0,0 +1,14 @@
+import type { AppSliceCreator, CommentQueryState } from '@/types/store';
+import { DEFAULT_COMMENT_QUERY } from '../commentQuery';
+
+// The query lives in the URL rather than in persisted state (see useCommentQueryUrlSync)
+export const createCommentQuerySlice: AppSliceCreator<CommentQueryState> = (set) => ({
+  commentQuery: DEFAULT_COMMENT_QUERY,
+
+  setCommentQuery: (changes) => set(
+    (state) => ({ commentQuery: { ...state.commentQuery, ...changes } }),
+    false,
+    'setCommentQuery'
+  ),
+  resetCommentQuery: () => set({ commentQuery: DEFAULT_COMMENT_QUERY }, false, 'resetCommentQuery')
+});
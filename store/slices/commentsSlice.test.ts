@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createTestAppStore,
+  jsonResponse,
+  setUpTestAppStores,
+  testComment,
+  type FetchStubRoute
+} from '../testing';
+import { normalizeComments, reconcileComments } from './commentsSlice';
+
+// Serves `pages[n - 1]` for `_page=n`, with no X-Total-Count header unless `total` is given
+const pagedRoute = (pages: number[][], total?: number): FetchStubRoute => ({
+  path: /^\/comments\?_page=\d+/,
+  respond: (request) => {
+    const page = Number(new URL(request.url).searchParams.get('_page'));
+    return jsonResponse((pages[page - 1] ?? []).map((id) => testComment(id)), {
+      headers: total === undefined ? {} : { 'X-Total-Count': String(total) }
+    });
+  }
+});
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+describe('normalizeComments', () => {
+  it('appends new comments in order and replaces existing ones in place', () => {
+    const current = normalizeComments([testComment(1), testComment(2)]);
+    const next = normalizeComments([testComment(3), testComment(1, { body: 'Edited' })], current);
+
+    expect(next.commentIds).toEqual([1, 2, 3]);
+    expect(next.commentsById[1].body).toBe('Edited');
+    expect(current.commentsById[1].body).toBe('Body 1');
+  });
+});
+
+describe('reconcileComments', () => {
+  it('keeps the objects of unchanged comments', () => {
+    const current = normalizeComments([testComment(1), testComment(2)]);
+    const next = reconcileComments(current, normalizeComments([testComment(1), testComment(2, { body: 'Edited' })]));
+
+    expect(next.commentIds).toBe(current.commentIds);
+    expect(next.commentsById[1]).toBe(current.commentsById[1]);
+    expect(next.commentsById[2].body).toBe('Edited');
+  });
+
+  it('returns the current collection when nothing changed', () => {
+    const current = normalizeComments([testComment(1), testComment(2)]);
+    const next = reconcileComments(current, normalizeComments([testComment(1), testComment(2)]));
+
+    expect(next.commentsById).toBe(current.commentsById);
+    expect(next.commentIds).toBe(current.commentIds);
+  });
+});
+
+describe('paging', () => {
+  it('without a total, a short page is the last one', async () => {
+    const { store } = createTestAppStore({ routes: [pagedRoute([range(1, 10), range(11, 13)])] });
+
+    await store.getState().fetchComments();
+    expect(store.getState()).toMatchObject({ page: 1, total: null, hasMore: true });
+
+    await store.getState().fetchNextPage();
+    expect(store.getState()).toMatchObject({ page: 2, hasMore: false });
+    expect(store.getState().commentIds).toEqual(range(1, 13));
+  });
+
+  it('does not duplicate a comment that shifted onto the next page', async () => {
+    // A comment was added on the server between the two requests
+    const { store } = createTestAppStore({ routes: [pagedRoute([range(1, 10), range(10, 19)], 19)] });
+
+    await store.getState().fetchComments();
+    await store.getState().fetchNextPage();
+    expect(store.getState().commentIds).toEqual(range(1, 19));
+  });
+
+  it('fetchNextPage does nothing once every page is loaded', async () => {
+    const { store, fetchStub } = createTestAppStore({ routes: [pagedRoute([range(1, 5)], 5)] });
+
+    await store.getState().fetchComments();
+    await store.getState().fetchNextPage();
+    expect(fetchStub.requests).toHaveLength(1);
+  });
+
+  it('keeps changes waiting in the outbox applied over a fresh first page', async () => {
+    const { store } = createTestAppStore({
+      initialState: { outbox: [{ type: 'delete', id: 2, previous: testComment(2) }] },
+      routes: [pagedRoute([range(1, 3)], 3)]
+    });
+
+    await store.getState().fetchComments();
+    expect(store.getState().commentIds).toEqual([1, 3]);
+  });
+
+  it('keeps changes waiting in the outbox applied over the next page', async () => {
+    const { store } = createTestAppStore({
+      initialState: { outbox: [{ type: 'delete', id: 12, previous: testComment(12) }] },
+      routes: [pagedRoute([range(1, 10), range(11, 13)], 13)]
+    });
+
+    await store.getState().fetchComments();
+    await store.getState().fetchNextPage();
+    expect(store.getState().commentIds).toEqual([...range(1, 11), 13]);
+    expect(store.getState().hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+import { shallow } from 'zustand/vanilla/shallow';
+import type { AppSliceCreator, AppState, Comment, CommentsState, NormalizedComments } from '@/types/store';
+import { COMMENTS_PAGE_SIZE, isRetryableError, type ApiClient } from '../apiClient';
+import { isAbortError, retryWithBackoff } from '../retry';
+import { applyOutbox, applyUnsynced } from '../commentOutbox';
+
+// How long fetched (or rehydrated) comments count as fresh
+export const COMMENTS_STALE_TIME = 5 * 60 * 1000;
+
+// Background revalidations (on focus, reconnect, ...) closer together than this are skipped
+export const COMMENTS_REVALIDATE_INTERVAL = 30 * 1000;
+
+export const initialCommentsState = {
+  commentsById: {} as Record<number, Comment>,
+  commentIds: [] as number[],
+  page: 0,
+  hasMore: true,
+  total: null as number | null,
+  loading: false,
+  revalidating: false,
+  error: null as string | null,
+  lastFetchedAt: null as number | null
+};
+
+export function isCommentsStale(
+  lastFetchedAt: number | null,
+  staleTime = COMMENTS_STALE_TIME,
+  now = Date.now()
+): boolean {
+  return lastFetchedAt === null || now - lastFetchedAt >= staleTime;
+}
+
+/**
+ * Adds `comments` to a normalized collection. Rows already present are
+ * replaced in place, new ones are appended in the order received.
+ */
+export function normalizeComments(
+  comments: Comment[],
+  { commentsById, commentIds }: NormalizedComments = initialCommentsState
+): NormalizedComments {
+  const nextById = { ...commentsById };
+  const nextIds = [...commentIds];
+
+  comments.forEach((comment) => {
+    if (!(comment.id in nextById)) nextIds.push(comment.id);
+    nextById[comment.id] = comment;
+  });
+
+  return { commentsById: nextById, commentIds: nextIds };
+}
+
+/**
+ * Returns `next`, reusing `current`'s objects wherever they are equal, so
+ * subscribers (and memoized rows) only see the comments that actually
+ * changed. When nothing changed at all, `current`'s references come back.
+ */
+export function reconcileComments(current: NormalizedComments, next: NormalizedComments): NormalizedComments {
+  const idsChanged = current.commentIds.length !== next.commentIds.length
+    || next.commentIds.some((id, index) => id !== current.commentIds[index]);
+  let rowsChanged = false;
+
+  const commentsById: Record<number, Comment> = {};
+  next.commentIds.forEach((id) => {
+    const previous = current.commentsById[id];
+    if (previous && shallow(previous, next.commentsById[id])) {
+      commentsById[id] = previous;
+    } else {
+      commentsById[id] = next.commentsById[id];
+      rowsChanged = true;
+    }
+  });
+
+  return {
+    commentsById: idsChanged || rowsChanged ? commentsById : current.commentsById,
+    commentIds: idsChanged ? next.commentIds : current.commentIds
+  };
+}
+
+// Local changes the fetched comments don't reflect yet stay applied
+const applyLocalChanges = (normalized: NormalizedComments, state: Pick<AppState, 'commentsById' | 'commentSync' | 'outbox'>) =>
+  applyUnsynced(applyOutbox(normalized, state.outbox), state);
+
+// Whether pages beyond the first `loaded` comments remain, `received` being the size of the last page
+export function hasMorePages(loaded: number, received: number, total: number | null) {
+  return total === null ? received === COMMENTS_PAGE_SIZE : loaded < total;
+}
+
+export const createCommentsSlice = (api: ApiClient): AppSliceCreator<CommentsState> => (set, get) => {
+  // At most one request per store; kept out of state since it isn't data
+  let inFlight: { promise: Promise<void>; controller: AbortController } | null = null;
+
+  const abortInFlight = () => {
+    inFlight?.controller.abort();
+    inFlight = null;
+  };
+
+  // Page 1 replaces the collection, later pages append to it
+  const load = async (page: number, controller: AbortController) => {
+    const action = page === 1 ? 'fetchComments' : 'fetchNextPage';
+    // A foreground load supersedes any background revalidation it aborted
+    set({ loading: true, revalidating: false, error: null }, false, `${action}/start`);
+
+    try {
+      const { comments, total } = await retryWithBackoff(
+        () => api.getComments(page, { signal: controller.signal }),
+        { signal: controller.signal, shouldRetry: isRetryableError }
+      );
+      const normalized = page === 1
+        ? reconcileComments(get(), applyLocalChanges(normalizeComments(comments), get()))
+        : applyLocalChanges(normalizeComments(comments, get()), get());
+
+      set({
+        ...normalized,
+        page,
+        total,
+        // Counted as the server pages them, whatever is applied locally
+        hasMore: hasMorePages((page - 1) * COMMENTS_PAGE_SIZE + comments.length, comments.length, total),
+        loading: false,
+        error: null,
+        ...(page === 1 && { lastFetchedAt: Date.now() })
+      }, false, `${action}/success`);
+    } catch (error) {
+      // A superseding request or clearComments owns the loading state now
+      if (isAbortError(error)) return;
+
+      set({
+        error: error instanceof Error ? error.message : 'An error occurred',
+        loading: false
+      }, false, `${action}/error`);
+    } finally {
+      if (inFlight?.controller === controller) inFlight = null;
+    }
+  };
+
+  // Refetches every loaded page in the background while the current ones
+  // stay on screen, then merges them in so only changed rows update
+  const revalidate = async (controller: AbortController) => {
+    set({ revalidating: true }, false, 'revalidateComments/start');
+
+    try {
+      const pages = Math.max(get().page, 1);
+      const results = await Promise.all(Array.from({ length: pages }, (_, index) => retryWithBackoff(
+        () => api.getComments(index + 1, { signal: controller.signal }),
+        { signal: controller.signal, shouldRetry: isRetryableError }
+      )));
+      const { comments: lastPage, total } = results[results.length - 1];
+      const fetched = results.flatMap(({ comments }) => comments);
+      const normalized = applyLocalChanges(normalizeComments(fetched), get());
+
+      set((state) => ({
+        ...reconcileComments(state, normalized),
+        page: pages,
+        total,
+        hasMore: hasMorePages(fetched.length, lastPage.length, total),
+        revalidating: false,
+        error: null,
+        lastFetchedAt: Date.now()
+      }), false, 'revalidateComments/success');
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      // The comments on screen stay; they are just older than hoped
+      set({
+        error: error instanceof Error ? error.message : 'An error occurred',
+        revalidating: false
+      }, false, 'revalidateComments/error');
+    } finally {
+      if (inFlight?.controller === controller) inFlight = null;
+    }
+  };
+
+  const start = (run: (controller: AbortController) => Promise<void>) => {
+    abortInFlight();
+    const controller = new AbortController();
+    const promise = run(controller);
+    inFlight = { promise, controller };
+    return promise;
+  };
+
+  return {
+    ...initialCommentsState,
+
+    fetchComments: ({ force = false, staleTime = COMMENTS_STALE_TIME } = {}) => {
+      if (!force) {
+        // Share the running request instead of racing it
+        if (inFlight) return inFlight.promise;
+        if (!isCommentsStale(get().lastFetchedAt, staleTime)) return Promise.resolve();
+      }
+
+      return start((controller) => load(1, controller));
+    },
+
+    fetchNextPage: () => {
+      if (inFlight) return inFlight.promise;
+      if (!get().hasMore) return Promise.resolve();
+
+      const page = get().page + 1;
+      return start((controller) => load(page, controller));
+    },
+
+    revalidateComments: () => {
+      if (inFlight) return inFlight.promise;
+      // Nothing on screen to keep showing, so this is a regular first load
+      if (get().page === 0) return start((controller) => load(1, controller));
+      if (!isCommentsStale(get().lastFetchedAt, COMMENTS_REVALIDATE_INTERVAL)) return Promise.resolve();
+
+      return start(revalidate);
+    },
+
+    clearComments: () => {
+      abortInFlight();
+      set(initialCommentsState, false, 'clearComments');
+    }
+  };
+};
@@ -0,0 +1,135 @@
+import type { AppSliceCreator, CounterConstraints, CounterState, CountersCollection, NamedCounter } from '@/types/store';
+import { checkCountChange, checkCountValue, normalizeCount, type CountCheck } from '../counterRules';
+
+// The counter that earlier releases' single `count` becomes
+export const DEFAULT_COUNTER_ID = 'default';
+
+export const INITIAL_COUNT = 0;
+
+// Starting count under `constraints`, which may exclude 0
+export function getInitialCount(constraints: CounterConstraints): number {
+  return normalizeCount(INITIAL_COUNT, constraints);
+}
+
+export function createInitialCounters(count = INITIAL_COUNT): CountersCollection {
+  return {
+    counters: { [DEFAULT_COUNTER_ID]: { id: DEFAULT_COUNTER_ID, name: 'Counter', count } },
+    counterIds: [DEFAULT_COUNTER_ID]
+  };
+}
+
+export const initialCounterState = {
+  ...createInitialCounters(),
+  counterErrors: {} as Record<string, string>
+};
+
+function withError(errors: Record<string, string>, id: string, error: string | null): Record<string, string> {
+  const next = { ...errors };
+  if (error) {
+    next[id] = error;
+  } else {
+    delete next[id];
+  }
+  return next;
+}
+
+const createCounterId = () => `counter-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCounterSlice = (
+  counterConstraints: CounterConstraints
+): AppSliceCreator<CounterState> => (set) => {
+  // Accepted changes clear the counter's previous error; rejected ones leave its count alone.
+  // Unknown ids are ignored, e.g. a button still rendered for a counter another tab removed
+  const apply = (id: string, action: string, check: (count: number) => CountCheck) => set(
+    (state) => {
+      const counter = state.counters[id];
+      if (!counter) return state;
+
+      const result = check(counter.count);
+      return result.ok
+        ? {
+          counters: { ...state.counters, [id]: { ...counter, count: result.value } },
+          counterErrors: withError(state.counterErrors, id, null)
+        }
+        : { counterErrors: withError(state.counterErrors, id, result.error) };
+    },
+    false,
+    action
+  );
+
+  // Edits that can't be rejected; they clear the counter's error too
+  const updateCounter = (id: string, changes: Partial<NamedCounter>, action: string) => set(
+    (state) => state.counters[id]
+      ? {
+        counters: { ...state.counters, [id]: { ...state.counters[id], ...changes } },
+        counterErrors: withError(state.counterErrors, id, null)
+      }
+      : state,
+    false,
+    action
+  );
+
+  return {
+    ...initialCounterState,
+    ...createInitialCounters(getInitialCount(counterConstraints)),
+    counterConstraints,
+
+    createCounter: (name) => {
+      const id = createCounterId();
+      set((state) => ({
+        counters: {
+          ...state.counters,
+          [id]: {
+            id,
+            name: name?.trim() || `Counter ${state.counterIds.length + 1}`,
+            count: getInitialCount(counterConstraints)
+          }
+        },
+        counterIds: [...state.counterIds, id]
+      }), false, 'createCounter');
+      return id;
+    },
+
+    renameCounter: (id, name) => {
+      if (!name.trim()) {
+        set((state) => ({
+          counterErrors: withError(state.counterErrors, id, 'Counter names can\'t be empty')
+        }), false, 'renameCounter/rejected');
+        return;
+      }
+      updateCounter(id, { name: name.trim() }, 'renameCounter');
+    },
+
+    removeCounter: (id) => set((state) => {
+      const counters = { ...state.counters };
+      delete counters[id];
+      return {
+        counters,
+        counterIds: state.counterIds.filter((counterId) => counterId !== id),
+        counterErrors: withError(state.counterErrors, id, null)
+      };
+    }, false, 'removeCounter'),
+
+    increment: (id) => apply(
+      id,
+      'increment',
+      (count) => checkCountChange(count, counterConstraints.step, counterConstraints)
+    ),
+    decrement: (id) => apply(
+      id,
+      'decrement',
+      (count) => checkCountChange(count, -counterConstraints.step, counterConstraints)
+    ),
+    incrementBy: (id, amount) => apply(
+      id,
+      'incrementBy',
+      (count) => checkCountChange(count, amount, counterConstraints)
+    ),
+    setCount: (id, value) => apply(
+      id,
+      'setCount',
+      () => checkCountValue(value, counterConstraints)
+    ),
+    reset: (id) => updateCounter(id, { count: getInitialCount(counterConstraints) }, 'resetCounter')
+  };
+};
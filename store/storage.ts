@@ -0,0 +1,167 @@
+import type { PersistStorage, StateStorage, StorageValue } from 'zustand/middleware';
+
+export type StorageBackend = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'memory';
+
+export function createMemoryStorage(): StateStorage {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (name) => items.get(name) ?? null,
+    setItem: (name, value) => {
+      items.set(name, value);
+    },
+    removeItem: (name) => {
+      items.delete(name);
+    }
+  };
+}
+
+/**
+ * A persist storage that can also read what is stored without the side
+ * effects `getItem` has for rehydration, e.g. for a devtools view.
+ */
+export interface PeekableStorage<S> extends PersistStorage<S> {
+  peek: (name: string) => StorageValue<S> | null | Promise<StorageValue<S> | null>;
+}
+
+/** Reads through `peek` where the storage has one; plain JSON storages have no side effects to avoid */
+export function peekItem<S>(storage: PersistStorage<S>, name: string) {
+  return 'peek' in storage ? (storage as PeekableStorage<S>).peek(name) : storage.getItem(name);
+}
+
+/**
+ * Applies `transform` to the result of a storage read, staying synchronous
+ * for synchronous backends so hydration timing is unchanged.
+ */
+export function mapStored<T, R>(stored: T | Promise<T>, transform: (value: T) => R): R | Promise<R> {
+  return stored instanceof Promise ? stored.then(transform) : transform(stored);
+}
+
+interface IndexedDBStorageOptions {
+  dbName?: string;
+  storeName?: string;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Key-value storage on top of a single IndexedDB object store. Reads and
+ * writes happen off the main thread, so hydration through it is always
+ * asynchronous.
+ */
+export function createIndexedDBStorage({
+  dbName = 'zustand',
+  storeName = 'persist'
+}: IndexedDBStorageOptions = {}): StateStorage {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = () => {
+    if (!database) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      database = promisifyRequest(request);
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDatabase();
+    return promisifyRequest(operation(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    getItem: async (name) => (await run<string | undefined>('readonly', (store) => store.get(name))) ?? null,
+    setItem: async (name, value) => {
+      await run('readwrite', (store) => store.put(value, name));
+    },
+    removeItem: async (name) => {
+      await run('readwrite', (store) => store.delete(name));
+    }
+  };
+}
+
+// One instance per backend so stores sharing a backend share its data
+const storages = new Map<StorageBackend, StateStorage>();
+
+/**
+ * Resolves the StateStorage behind a backend name. Meant to be called from
+ * the `createJSONStorage` factory, which treats a throw (e.g. no `window`
+ * during SSR) as "storage unavailable".
+ */
+export function getStateStorage(backend: StorageBackend): StateStorage {
+  switch (backend) {
+    case 'localStorage':
+      return window.localStorage;
+    case 'sessionStorage':
+      return window.sessionStorage;
+    case 'indexedDB':
+    case 'memory': {
+      if (backend === 'indexedDB' && typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not available in this environment');
+      }
+
+      let storage = storages.get(backend);
+      if (!storage) {
+        storage = backend === 'indexedDB' ? createIndexedDBStorage() : createMemoryStorage();
+        storages.set(backend, storage);
+      }
+      return storage;
+    }
+  }
+}
+
+export interface StorageUsage {
+  /** Everything this origin keeps in the backend, in bytes */
+  used: number;
+  /** The most the backend accepts, in bytes; null when unknown */
+  quota: number | null;
+  /** The share taken by the item under the requested key */
+  item: number;
+}
+
+// Web Storage keeps strings as UTF-16, two bytes per code unit
+const UTF16_CODE_UNIT_BYTES = 2;
+
+// Browsers cap Web Storage at about 5 M code units per origin and offer no
+// API to read the limit
+const WEB_STORAGE_QUOTA = 5 * 1024 * 1024 * UTF16_CODE_UNIT_BYTES;
+
+/**
+ * Estimates how full a backend is and how much of it `name` takes up. Web
+ * Storage is measured by its contents, IndexedDB through the StorageManager
+ * (which cannot attribute usage to a single item). Null where nothing can
+ * be measured, e.g. during SSR or for the in-memory backend.
+ */
+export async function estimateStorageUsage(backend: StorageBackend, name: string): Promise<StorageUsage | null> {
+  if (typeof window === 'undefined') return null;
+
+  switch (backend) {
+    case 'localStorage':
+    case 'sessionStorage': {
+      const storage = window[backend];
+      let used = 0;
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)!;
+        used += key.length + (storage.getItem(key)?.length ?? 0);
+      }
+      const item = storage.getItem(name);
+      return {
+        used: used * UTF16_CODE_UNIT_BYTES,
+        quota: WEB_STORAGE_QUOTA,
+        item: item === null ? 0 : (name.length + item.length) * UTF16_CODE_UNIT_BYTES
+      };
+    }
+    case 'indexedDB': {
+      if (!navigator.storage?.estimate) return null;
+      const { usage = 0, quota = null } = await navigator.storage.estimate();
+      return { used: usage, quota, item: 0 };
+    }
+    case 'memory':
+      return null;
+  }
+}
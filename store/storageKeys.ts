@@ -0,0 +1,22 @@
+// Registry of the storage keys claimed by persisted stores. Two stores
+// persisting under the same key silently overwrite each other's payload,
+// so a second claim fails loudly during development.
+const claimedKeys = new Map<string, string>();
+
+export const APP_STORAGE_KEY = 'app-storage';
+
+export function claimStorageKey(key: string, owner: string): string {
+  const currentOwner = claimedKeys.get(key);
+
+  // Re-claims by the same owner happen when Fast Refresh re-evaluates a store module
+  if (currentOwner !== undefined && currentOwner !== owner) {
+    if (process.env.NODE_ENV !== 'production') {
+      throw new Error(
+        `Storage key "${key}" is already used by ${currentOwner}; ${owner} must persist under a different name`
+      );
+    }
+  }
+
+  claimedKeys.set(key, owner);
+  return key;
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, expect, it } from 'vitest';
+import { createTestAppStore, jsonResponse, setUpTestAppStores, testComment } from './testing';
+import { DEFAULT_COUNTER_ID } from './slices/counterSlice';
+import { selectCounterTotal } from './selectors';
+
+const comments = [1, 2].map((id) => testComment(id));
+
+const routes = [
+  { path: /^\/comments\?_page=1/, respond: () => jsonResponse(comments) },
+  { method: 'POST', path: '/comments', respond: async (request: Request) => jsonResponse({ ...await request.json(), id: 501 }) }
+];
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+it('undoing a counter change keeps comments fetched after it', async () => {
+  const { store } = createTestAppStore({ routes });
+
+  store.getState().increment(DEFAULT_COUNTER_ID);
+  await store.getState().fetchComments();
+  store.temporal.getState().undo();
+
+  expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(0);
+  expect(store.getState().commentIds).toEqual([1, 2]);
+
+  store.temporal.getState().redo();
+  expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(1);
+  expect(store.getState().commentIds).toEqual([1, 2]);
+});
+
+it('undoing a counter change keeps comments added after it', async () => {
+  const { store } = createTestAppStore({ routes });
+
+  store.getState().increment(DEFAULT_COUNTER_ID);
+  await store.getState().addComment({ postId: 1, name: 'New', email: 'a@b.c', body: 'Hi' });
+  store.temporal.getState().undo();
+
+  expect(store.getState().commentIds).toEqual([501]);
+  expect(store.temporal.getState().canUndo).toBe(false);
+});
+
+it('records only the keys an action changed', () => {
+  const { store } = createTestAppStore();
+
+  store.getState().createCounter('Second');
+  expect(Object.keys(store.temporal.getState().pastStates[0]).sort()).toEqual(['counterIds', 'counters']);
+});
+
+it('undoing keeps a counter another tab created since', () => {
+  const { store } = createTestAppStore();
+
+  store.getState().increment(DEFAULT_COUNTER_ID);
+  // How cross-tab sync applies the other tab's change: unnamed, so unrecorded
+  store.setState((state) => ({
+    counters: { ...state.counters, other: { id: 'other', name: 'Other', count: 5 } },
+    counterIds: [...state.counterIds, 'other']
+  }));
+  store.temporal.getState().undo();
+
+  expect(store.getState().counterIds).toEqual([DEFAULT_COUNTER_ID, 'other']);
+  expect(store.getState().counters.other.count).toBe(5);
+  expect(selectCounterTotal(store.getState())).toBe(5);
+
+  store.temporal.getState().redo();
+  expect(selectCounterTotal(store.getState())).toBe(6);
+});
+
+it('undoing and redoing a created counter removes and restores it in place', () => {
+  const { store } = createTestAppStore();
+
+  store.getState().createCounter('Second');
+  const { counterIds, counters } = store.getState();
+  store.temporal.getState().undo();
+  expect(store.getState().counterIds).toEqual([DEFAULT_COUNTER_ID]);
+  expect(Object.keys(store.getState().counters)).toEqual([DEFAULT_COUNTER_ID]);
+
+  store.temporal.getState().redo();
+  expect(store.getState().counterIds).toEqual(counterIds);
+  expect(store.getState().counters).toEqual(counters);
+});
@@ -0,0 +1,238 @@
+import { createStore, type StateCreator, type StoreApi, type StoreMutatorIdentifier } from 'zustand/vanilla';
+
+export interface TemporalState<Snapshot> {
+  /**
+   * Oldest first; the last entry is what `undo` restores. Each entry holds
+   * only the keys its action changed, so stepping back over one action
+   * leaves what unrecorded actions did to other keys alone. Of a
+   * collection it holds the entities changed (undefined where one didn't
+   * exist yet) and the whole id list.
+   */
+  pastStates: Partial<Snapshot>[];
+  /** Most recent undo first, holding the same keys as the entry undone */
+  futureStates: Partial<Snapshot>[];
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+}
+
+export interface TemporalOptions<S, Snapshot> {
+  /** The part of the state that history records and restores */
+  partialize: (state: S) => Snapshot;
+  /** Maximum number of undo steps kept, oldest dropped first */
+  limit?: number;
+  /**
+   * Devtools action names to record. A name also matches its async phases,
+   * so 'fetchComments' covers 'fetchComments/success'. Defaults to every
+   * named action; unnamed updates (e.g. rehydration) are never recorded.
+   */
+  include?: string[];
+  /** Action names never recorded, matched the same way as `include` */
+  exclude?: string[];
+  /**
+   * Normalized collections, recorded and restored per entity so that
+   * entities other (unrecorded) updates added or changed survive an undo
+   */
+  collections?: TemporalCollection<Snapshot>[];
+}
+
+export interface TemporalCollection<Snapshot> {
+  /** Key of the entities by id */
+  byId: keyof Snapshot;
+  /** Key of their ids, in order */
+  ids: keyof Snapshot;
+}
+
+type EntityMap = Record<string, unknown>;
+type IdList = (string | number)[];
+
+type Write<T, U> = Omit<T, keyof U> & U;
+
+declare module 'zustand/vanilla' {
+  interface StoreMutators<S, A> {
+    'app/temporal': Write<S, { temporal: StoreApi<TemporalState<A>> }>;
+  }
+}
+
+type Temporal = <
+  T,
+  Snapshot,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+  initializer: StateCreator<T, [...Mps, ['app/temporal', Snapshot]], Mcs>,
+  options: TemporalOptions<T, Snapshot>
+) => StateCreator<T, Mps, [['app/temporal', Snapshot], ...Mcs]>;
+
+type TemporalImpl = <T, Snapshot extends object>(
+  initializer: StateCreator<T, [], []>,
+  options: TemporalOptions<T, Snapshot>
+) => StateCreator<T, [], []>;
+
+// What `set` looks like under devtools, which takes the action name last
+type NamedSet<T> = (partial: T | Partial<T> | ((state: T) => T | Partial<T>), replace?: boolean, action?: unknown) => void;
+
+function matchesAction(names: string[], action: string): boolean {
+  return names.some((name) => action === name || action.startsWith(`${name}/`));
+}
+
+function pick<Snapshot>(snapshot: Snapshot, keys: (keyof Snapshot)[]): Partial<Snapshot> {
+  const picked: Partial<Snapshot> = {};
+  keys.forEach((key) => {
+    picked[key] = snapshot[key];
+  });
+  return picked;
+}
+
+// The entities of `byId` under `ids`, undefined for those it lacks
+function pickEntities(byId: EntityMap, ids: string[]): EntityMap {
+  return Object.fromEntries(ids.map((id) => [id, byId[id]]));
+}
+
+/**
+ * Puts the recorded entities back into the current collection. Entities
+ * that were recorded missing are removed; those added since, and not
+ * recorded, are kept after the recorded order.
+ */
+function restoreCollection(byId: EntityMap, ids: IdList, entities: EntityMap, recordedIds: IdList) {
+  const nextById = { ...byId };
+  Object.entries(entities).forEach(([id, entity]) => {
+    if (entity === undefined) {
+      delete nextById[id];
+    } else {
+      nextById[id] = entity;
+    }
+  });
+
+  const recorded = new Set(recordedIds);
+  const nextIds = [...recordedIds, ...ids.filter((id) => !recorded.has(id))].filter((id) => id in nextById);
+  return { byId: nextById, ids: nextIds };
+}
+
+const temporalImpl: TemporalImpl = (initializer, { partialize, limit = 50, include, exclude = [], collections = [] }) =>
+  (set, get, api) => {
+    type Snapshot = ReturnType<typeof partialize>;
+    const namedSet = set as NamedSet<ReturnType<typeof get>>;
+    const collectionKeys = new Set(collections.flatMap(({ byId, ids }) => [byId, ids]));
+
+    // Records the current value of what `entry` holds, in the same shape
+    const capture = (entry: Partial<Snapshot>): Partial<Snapshot> => {
+      const current = partialize(get());
+      const captured = pick(current, (Object.keys(entry) as (keyof Snapshot)[]).filter((key) => !collectionKeys.has(key)));
+      collections.forEach(({ byId, ids }) => {
+        if (!(byId in entry)) return;
+        captured[byId] = pickEntities(current[byId] as EntityMap, Object.keys(entry[byId] as EntityMap)) as Snapshot[keyof Snapshot];
+        captured[ids] = current[ids];
+      });
+      return captured;
+    };
+
+    const restore = (entry: Partial<Snapshot>, action: string) => {
+      const current = partialize(get());
+      // Snapshots are a part of the state, so plain keys are written back as is
+      const restored = pick(entry as Snapshot, (Object.keys(entry) as (keyof Snapshot)[]).filter((key) => !collectionKeys.has(key)));
+      collections.forEach(({ byId, ids }) => {
+        if (!(byId in entry)) return;
+        const collection = restoreCollection(
+          current[byId] as EntityMap,
+          current[ids] as IdList,
+          entry[byId] as EntityMap,
+          entry[ids] as IdList
+        );
+        restored[byId] = collection.byId as Snapshot[keyof Snapshot];
+        restored[ids] = collection.ids as Snapshot[keyof Snapshot];
+      });
+      namedSet(restored as unknown as Partial<ReturnType<typeof get>>, false, action);
+    };
+
+    // What `before` held of the keys the update changed; a collection's two
+    // keys always go together
+    const diff = (before: Snapshot, after: Snapshot): Partial<Snapshot> => {
+      const changed = (Object.keys(before) as (keyof Snapshot)[])
+        .filter((key) => !collectionKeys.has(key) && !Object.is(before[key], after[key]));
+      const entry = pick(before, changed);
+
+      collections.forEach(({ byId, ids }) => {
+        if (Object.is(before[byId], after[byId]) && Object.is(before[ids], after[ids])) return;
+        const beforeById = before[byId] as EntityMap;
+        const afterById = after[byId] as EntityMap;
+        const changedIds = [...new Set([...Object.keys(beforeById), ...Object.keys(afterById)])]
+          .filter((id) => !Object.is(beforeById[id], afterById[id]));
+        entry[byId] = pickEntities(beforeById, changedIds) as Snapshot[keyof Snapshot];
+        entry[ids] = before[ids];
+      });
+      return entry;
+    };
+
+    const shouldRecord = (action: unknown): boolean => {
+      // Devtools also takes `{ type }` action objects
+      const name = typeof action === 'object' && action !== null ? (action as { type?: unknown }).type : action;
+      return typeof name === 'string'
+        && (!include || matchesAction(include, name))
+        && !matchesAction(exclude, name);
+    };
+
+    const withFlags = <Snapshot>(pastStates: Partial<Snapshot>[], futureStates: Partial<Snapshot>[]) => ({
+      pastStates,
+      futureStates,
+      canUndo: pastStates.length > 0,
+      canRedo: futureStates.length > 0
+    });
+
+    const history = createStore<TemporalState<ReturnType<typeof partialize>>>()((setHistory, getHistory) => ({
+      ...withFlags([], []),
+
+      undo: () => {
+        const { pastStates, futureStates } = getHistory();
+        const previous = pastStates.at(-1);
+        if (!previous) return;
+
+        const current = capture(previous);
+        // The unwrapped set, so restoring isn't recorded as a new step
+        restore(previous, 'undo');
+        setHistory(withFlags(pastStates.slice(0, -1), [current, ...futureStates]));
+      },
+
+      redo: () => {
+        const { pastStates, futureStates } = getHistory();
+        const [next, ...rest] = futureStates;
+        if (!next) return;
+
+        const current = capture(next);
+        restore(next, 'redo');
+        setHistory(withFlags([...pastStates, current], rest));
+      },
+
+      clear: () => setHistory(withFlags([], []))
+    }));
+
+    (api as unknown as { temporal: typeof history }).temporal = history;
+
+    const recordingSet: NamedSet<ReturnType<typeof get>> = (partial, replace, action) => {
+      if (!shouldRecord(action)) {
+        namedSet(partial, replace, action);
+        return;
+      }
+
+      const before = partialize(get());
+      namedSet(partial, replace, action);
+      const entry = diff(before, partialize(get()));
+      // Updates that leave the recorded state as it was don't cost an undo step
+      if (Object.keys(entry).length === 0) return;
+
+      const { pastStates } = history.getState();
+      history.setState(withFlags([...pastStates, entry].slice(-limit), []));
+    };
+
+    return initializer(recordingSet as typeof set, get, api);
+  };
+
+/**
+ * Records the part of `partialize(state)` each matching action changes, as it
+ * was before the action, so it can be stepped back and forth through
+ * `api.temporal`. Place it inside persist, so that undo and redo are
+ * persisted like any other update.
+ */
+export const temporal = temporalImpl as unknown as Temporal;
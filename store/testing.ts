@@ -0,0 +1,194 @@
+import type { StateStorage } from 'zustand/middleware';
+import type { AppState, Comment } from '@/types/store';
+import { createAppStore, type AppStore, type CreateAppStoreOptions } from './createAppStore';
+import { createApiClient } from './apiClient';
+import { createMemorySink, type MemorySink } from './actionLog';
+import { awaitHydration } from './hydration';
+import { createMemoryStorage } from './storage';
+import type { ScheduledPersistStorage } from './persistScheduler';
+
+// Runner-agnostic helpers for tests of code built on the app store: they
+// only throw plain Errors, so they work the same under Jest or Vitest.
+
+export type FetchStubResponder = (request: Request) => Response | Promise<Response>;
+
+export interface FetchStubRoute {
+  /** Defaults to GET */
+  method?: string;
+  /** Matched against the request's path and query, e.g. '/comments?_page=1&_limit=10' */
+  path: string | RegExp;
+  respond: FetchStubResponder;
+}
+
+export interface FetchStub {
+  fetch: typeof fetch;
+  /** Every request made, in order */
+  requests: Request[];
+}
+
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+}
+
+// Rejects like fetch does when the network is unreachable
+export const networkFailure: FetchStubResponder = () => Promise.reject(new TypeError('Failed to fetch'));
+
+/**
+ * A fetch replacement for `createApiClient({ fetch })` that answers from
+ * `routes` (first match wins). Unmatched requests get a 404 naming the
+ * request, so a missing stub shows up as an HttpStatusError.
+ */
+export function createFetchStub(routes: FetchStubRoute[] = []): FetchStub {
+  const requests: Request[] = [];
+
+  const stub = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = input instanceof Request ? input : new Request(input, init);
+    requests.push(request);
+
+    const { pathname, search } = new URL(request.url);
+    const route = routes.find(({ method = 'GET', path }) => method === request.method
+      && (typeof path === 'string' ? path === pathname + search || path === pathname : path.test(pathname + search)));
+
+    return route
+      ? route.respond(request)
+      : new Response(null, { status: 404, statusText: `No stub for ${request.method} ${pathname}${search}` });
+  };
+
+  return { fetch: stub as typeof fetch, requests };
+}
+
+export interface TestAppStore {
+  store: AppStore;
+  storage: StateStorage;
+  fetchStub: FetchStub;
+  actionLog: MemorySink<AppState>;
+  /** Asserts that these actions were dispatched, in this order (others may come between) */
+  expectActions: (expected: string[]) => void;
+}
+
+export interface TestAppStoreOptions extends Omit<CreateAppStoreOptions, 'getStorage' | 'actionSinks'> {
+  /** Defaults to an empty in-memory storage; pre-fill it to test rehydration */
+  storage?: StateStorage;
+  /** Used for the default API client */
+  routes?: FetchStubRoute[];
+}
+
+const testStores = new Set<TestAppStore>();
+
+/**
+ * Creates an app store backed by in-memory storage and a fetch stub, whose
+ * actions are recorded for `expectActions`. Reset it (and every other test
+ * store) with `resetTestAppStores`.
+ */
+export function createTestAppStore({
+  storage = createMemoryStorage(),
+  routes = [],
+  ...options
+}: TestAppStoreOptions = {}): TestAppStore {
+  const fetchStub = createFetchStub(routes);
+  const actionLog = createMemorySink<AppState>({ getSnapshot: () => store.getState() });
+  const store: AppStore = createAppStore({
+    apiClient: createApiClient({ baseUrl: 'https://api.test', fetch: fetchStub.fetch, onInvalidRows: () => {} }),
+    ...options,
+    getStorage: () => storage,
+    actionSinks: [actionLog]
+  });
+
+  const testStore: TestAppStore = {
+    store,
+    storage,
+    fetchStub,
+    actionLog,
+    expectActions: (expected) => expectActions(actionLog, expected)
+  };
+  testStores.add(testStore);
+  return testStore;
+}
+
+/**
+ * Puts every store made by `createTestAppStore` back to its initial state
+ * and empties its storage, history, request log and action log. Call it
+ * from `afterEach`.
+ */
+export function resetTestAppStores(): void {
+  testStores.forEach(({ store, fetchStub, actionLog }) => {
+    store.setState(store.getInitialState(), true);
+    void store.persist.clearStorage();
+    store.temporal.getState().clear();
+    fetchStub.requests.length = 0;
+    actionLog.clear();
+  });
+  testStores.clear();
+}
+
+export interface TestHooks {
+  beforeEach: (fn: () => void) => void;
+  afterEach: (fn: () => void) => void;
+}
+
+/**
+ * Registers what every test file using app stores needs, with the runner's
+ * own hooks: the store's 🔄/✅ logging is silenced during each test, and
+ * every test store is reset after it.
+ *
+ *     setUpTestAppStores({ beforeEach, afterEach });
+ */
+export function setUpTestAppStores({ beforeEach, afterEach }: TestHooks): void {
+  let log: typeof console.log;
+
+  beforeEach(() => {
+    log = console.log;
+    console.log = () => {};
+  });
+
+  afterEach(() => {
+    console.log = log;
+    resetTestAppStores();
+  });
+}
+
+/** A valid comment, e.g. for `initialState` or a stubbed response */
+export function testComment(id: number, overrides: Partial<Comment> = {}): Comment {
+  return {
+    postId: 1,
+    id,
+    name: `Comment ${id}`,
+    email: `user${id}@example.com`,
+    body: `Body ${id}`,
+    ...overrides
+  };
+}
+
+/**
+ * Resolves once the store has read its persisted state, so assertions see
+ * the rehydrated values.
+ */
+export function waitForHydration(store: AppStore): Promise<void> {
+  return awaitHydration(store);
+}
+
+/**
+ * Writes any debounced persisted state to storage right away.
+ */
+export function flushPersistedState(store: AppStore): void {
+  (store.persist.getOptions().storage as ScheduledPersistStorage<unknown> | undefined)?.flush();
+}
+
+export function expectActions(log: MemorySink<unknown>, expected: string[]): void {
+  const actual = log.events.map(({ action }) => action);
+  let position = 0;
+
+  expected.forEach((action) => {
+    const index = actual.indexOf(action, position);
+    if (index === -1) {
+      throw new Error(
+        `Expected actions ${JSON.stringify(expected)} in order, but "${action}" is missing`
+        + ` after position ${position}. Dispatched: ${JSON.stringify(actual)}`
+      );
+    }
+    position = index + 1;
+  });
+}
@@ -0,0 +1,12 @@
+import { useStore } from 'zustand';
+import type { AppHistorySnapshot } from '@/types/store';
+import type { TemporalState } from './temporal';
+import { useAppStoreApi } from './AppStoreProvider';
+
+/**
+ * Reads the undo/redo history of the app store provided by the nearest
+ * AppStoreProvider.
+ */
+export function useAppHistory<T>(selector: (state: TemporalState<AppHistorySnapshot>) => T): T {
+  return useStore(useAppStoreApi().temporal, selector);
+}
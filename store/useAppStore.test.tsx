@@ -0,0 +1,396 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createTestAppStore,
+  jsonResponse,
+  networkFailure,
+  setUpTestAppStores,
+  testComment,
+  waitForHydration,
+  type FetchStubRoute
+} from './testing';
+import { AppStoreProvider } from './AppStoreProvider';
+import { resetAppStore } from './createAppStore';
+import useAppStore from './useAppStore';
+import { useStore } from './useStore';
+import { DEFAULT_COUNTER_ID, createInitialCounters } from './slices/counterSlice';
+import { createMemoryStorage } from './storage';
+import { APP_STORAGE_KEY } from './storageKeys';
+import { PERSISTED_STATE_VERSION } from './migrations';
+import { DEFAULT_COMMENT_QUERY } from './commentQuery';
+
+// Pages of 10, like the real API, out of `total` comments
+const commentPages = (total: number): FetchStubRoute => ({
+  path: /^\/comments\?_page=\d+/,
+  respond: (request) => {
+    const page = Number(new URL(request.url).searchParams.get('_page'));
+    const ids = Array.from({ length: 10 }, (_, index) => (page - 1) * 10 + index + 1).filter((id) => id <= total);
+    return jsonResponse(ids.map((id) => testComment(id)), { headers: { 'X-Total-Count': String(total) } });
+  }
+});
+
+const echoComment = (status = 200): FetchStubRoute['respond'] => async (request) =>
+  status === 200 ? jsonResponse(await request.json(), { status }) : new Response(null, { status });
+
+setUpTestAppStores({ beforeEach, afterEach });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('counter actions', () => {
+  it('increment, decrement and incrementBy stay within the constraints', () => {
+    const { store, expectActions } = createTestAppStore({ counterConstraints: { max: 3 } });
+    const { increment, decrement, incrementBy } = store.getState();
+
+    increment(DEFAULT_COUNTER_ID);
+    incrementBy(DEFAULT_COUNTER_ID, 2);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(3);
+
+    increment(DEFAULT_COUNTER_ID);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(3);
+
+    decrement(DEFAULT_COUNTER_ID);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(2);
+    expectActions(['increment', 'incrementBy', 'increment', 'decrement']);
+  });
+
+  it('increment and decrement move by the step and wrap when configured to', () => {
+    const { store } = createTestAppStore({ counterConstraints: { max: 10, step: 4, overflow: 'wrap' } });
+    const { increment, decrement } = store.getState();
+
+    increment(DEFAULT_COUNTER_ID);
+    increment(DEFAULT_COUNTER_ID);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(8);
+
+    increment(DEFAULT_COUNTER_ID);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(1);
+
+    decrement(DEFAULT_COUNTER_ID);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(8);
+  });
+
+  it('incrementBy rejects fractions and keeps the count', () => {
+    const { store } = createTestAppStore();
+
+    store.getState().incrementBy(DEFAULT_COUNTER_ID, 0.5);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(0);
+    expect(store.getState().counterErrors[DEFAULT_COUNTER_ID]).toMatch(/whole numbers/);
+  });
+
+  it('brings a persisted count back into range on rehydration', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createMemoryStorage();
+    storage.setItem(APP_STORAGE_KEY, JSON.stringify({
+      version: PERSISTED_STATE_VERSION,
+      state: { ...createInitialCounters(50), commentsById: {}, commentIds: [], outbox: [] }
+    }));
+
+    const { store } = createTestAppStore({ storage, counterConstraints: { max: 10, overflow: 'wrap' } });
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(10);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Persisted count 50'));
+  });
+
+  it('setCount rejects out-of-range values and reset clears the error', () => {
+    const { store } = createTestAppStore({ counterConstraints: { max: 10 } });
+
+    store.getState().setCount(DEFAULT_COUNTER_ID, 50);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(0);
+    expect(store.getState().counterErrors[DEFAULT_COUNTER_ID]).toMatch(/between/);
+
+    store.getState().setCount(DEFAULT_COUNTER_ID, 7);
+    store.getState().reset(DEFAULT_COUNTER_ID);
+    expect(store.getState().counters[DEFAULT_COUNTER_ID].count).toBe(0);
+    expect(store.getState().counterErrors).toEqual({});
+  });
+
+  it('creates, renames and removes counters', () => {
+    const { store, expectActions } = createTestAppStore();
+
+    const id = store.getState().createCounter('  Laps ');
+    expect(store.getState().counterIds).toEqual([DEFAULT_COUNTER_ID, id]);
+    expect(store.getState().counters[id]).toEqual({ id, name: 'Laps', count: 0 });
+
+    store.getState().renameCounter(id, '');
+    expect(store.getState().counterErrors[id]).toBeDefined();
+    store.getState().renameCounter(id, 'Sets');
+    expect(store.getState().counters[id].name).toBe('Sets');
+    expect(store.getState().counterErrors[id]).toBeUndefined();
+
+    store.getState().removeCounter(id);
+    expect(store.getState().counterIds).toEqual([DEFAULT_COUNTER_ID]);
+    expect(store.getState().counters[id]).toBeUndefined();
+    expectActions(['createCounter', 'renameCounter/rejected', 'renameCounter', 'removeCounter']);
+  });
+
+  it('ignores changes to counters that do not exist', () => {
+    const { store } = createTestAppStore();
+    const before = store.getState().counters;
+
+    store.getState().increment('missing');
+    store.getState().reset('missing');
+    expect(store.getState().counters).toBe(before);
+  });
+});
+
+describe('comment fetching', () => {
+  it('fetchComments loads the first page and fetchNextPage appends', async () => {
+    const { store, expectActions } = createTestAppStore({ routes: [commentPages(15)] });
+    await waitForHydration(store);
+
+    await store.getState().fetchComments();
+    expect(store.getState().commentIds).toHaveLength(10);
+    expect(store.getState()).toMatchObject({ page: 1, total: 15, hasMore: true, loading: false });
+
+    await store.getState().fetchNextPage();
+    expect(store.getState().commentIds).toHaveLength(15);
+    expect(store.getState()).toMatchObject({ page: 2, hasMore: false });
+
+    expectActions([
+      'fetchComments/start',
+      'fetchComments/success',
+      'fetchNextPage/start',
+      'fetchNextPage/success'
+    ]);
+  });
+
+  it('fetchComments skips fresh comments unless forced', async () => {
+    const { store, fetchStub } = createTestAppStore({ routes: [commentPages(5)] });
+
+    await store.getState().fetchComments();
+    await store.getState().fetchComments();
+    expect(fetchStub.requests).toHaveLength(1);
+
+    await store.getState().fetchComments({ force: true });
+    expect(fetchStub.requests).toHaveLength(2);
+  });
+
+  it('fetchComments shares the request already running', async () => {
+    const { store, fetchStub } = createTestAppStore({ routes: [commentPages(5)] });
+
+    const first = store.getState().fetchComments();
+    const second = store.getState().fetchComments();
+    await Promise.all([first, second]);
+
+    expect(second).toBe(first);
+    expect(fetchStub.requests).toHaveLength(1);
+  });
+
+  it('fetchComments retries server and network errors with backoff', async () => {
+    vi.useFakeTimers();
+    const responses = [new Response(null, { status: 503 }), null, null];
+    const { store, fetchStub } = createTestAppStore({
+      routes: [{
+        path: /^\/comments/,
+        respond: (request) => {
+          const response = responses.shift();
+          if (response === null) return networkFailure(request);
+          return response ?? commentPages(5).respond(request);
+        }
+      }]
+    });
+
+    const fetching = store.getState().fetchComments();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchStub.requests).toHaveLength(1);
+    expect(store.getState().loading).toBe(true);
+
+    // 500, 1000 and 2000 ms at most, shortened by jitter
+    await vi.advanceTimersByTimeAsync(3500);
+    await fetching;
+    expect(fetchStub.requests).toHaveLength(4);
+    expect(store.getState().commentIds).toEqual([1, 2, 3, 4, 5]);
+    expect(store.getState().error).toBeNull();
+  });
+
+  it('fetchComments({ force: true }) aborts the request it supersedes', async () => {
+    let respondToFirst = true;
+    const { store, fetchStub } = createTestAppStore({
+      routes: [{
+        path: /^\/comments/,
+        respond: (request) => {
+          if (!respondToFirst) return commentPages(5).respond(request);
+          respondToFirst = false;
+          // Never answers; only settles once aborted
+          return new Promise((_, reject) => request.signal.addEventListener('abort', () => {
+            reject(new DOMException('The operation was aborted', 'AbortError'));
+          }));
+        }
+      }]
+    });
+
+    const superseded = store.getState().fetchComments();
+    await store.getState().fetchComments({ force: true });
+    await superseded;
+
+    expect(fetchStub.requests[0].signal.aborted).toBe(true);
+    expect(store.getState().commentIds).toEqual([1, 2, 3, 4, 5]);
+    expect(store.getState().loading).toBe(false);
+  });
+
+  it('fetchComments reports errors it will not retry', async () => {
+    const { store, expectActions } = createTestAppStore();
+
+    await store.getState().fetchComments();
+    expect(store.getState().error).toMatch(/404/);
+    expect(store.getState().loading).toBe(false);
+    expectActions(['fetchComments/start', 'fetchComments/error']);
+  });
+
+  it('revalidateComments refetches loaded pages in the background', async () => {
+    const { store, expectActions } = createTestAppStore({ routes: [commentPages(5)] });
+
+    await store.getState().revalidateComments();
+    const first = store.getState().commentsById;
+    store.setState({ lastFetchedAt: 0 });
+
+    await store.getState().revalidateComments();
+    // Nothing changed, so the rows are the very same objects
+    expect(store.getState().commentsById).toBe(first);
+    expect(store.getState().revalidating).toBe(false);
+    expectActions(['fetchComments/success', 'revalidateComments/start', 'revalidateComments/success']);
+  });
+
+  it('clearComments empties the list', async () => {
+    const { store } = createTestAppStore({ routes: [commentPages(5)] });
+    await store.getState().fetchComments();
+
+    store.getState().clearComments();
+    expect(store.getState()).toMatchObject({ commentIds: [], page: 0, lastFetchedAt: null });
+  });
+});
+
+describe('comment mutations', () => {
+  it('addComment swaps the temporary id for the server one', async () => {
+    const { store, expectActions } = createTestAppStore({
+      routes: [{ method: 'POST', path: '/comments', respond: async (request) => jsonResponse({ ...await request.json(), id: 501 }) }]
+    });
+
+    const pending = store.getState().addComment({ postId: 1, name: 'New', email: 'a@b.c', body: 'Hi' });
+    expect(store.getState().commentIds).toEqual([-1]);
+    await pending;
+
+    expect(store.getState().commentIds).toEqual([501]);
+    expect(store.getState().commentSync).toEqual({});
+    expectActions(['addComment/optimistic', 'addComment/pending', 'addComment/success']);
+  });
+
+  it('editComment rolls back when the server rejects it', async () => {
+    const { store, expectActions } = createTestAppStore({
+      initialState: { commentsById: { 1: testComment(1) }, commentIds: [1] },
+      routes: [{ method: 'PUT', path: '/comments/1', respond: echoComment(422) }]
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await store.getState().editComment(1, { body: 'Edited' });
+    expect(store.getState().commentsById[1].body).toBe('Body 1');
+    expect(store.getState().commentSync[1]).toMatchObject({ state: 'failed', type: 'update' });
+
+    store.getState().dismissCommentError(1);
+    expect(store.getState().commentSync).toEqual({});
+    expectActions(['editComment/optimistic', 'editComment/rollback', 'dismissCommentError']);
+  });
+
+  it('deleteComment queues the change when the network is down and replayOutbox sends it', async () => {
+    let online = false;
+    const { store, expectActions } = createTestAppStore({
+      initialState: { commentsById: { 1: testComment(1) }, commentIds: [1] },
+      routes: [{
+        method: 'DELETE',
+        path: '/comments/1',
+        respond: (request) => online ? new Response(null, { status: 200 }) : networkFailure(request)
+      }]
+    });
+
+    await store.getState().deleteComment(1);
+    expect(store.getState().commentIds).toEqual([]);
+    expect(store.getState().outbox).toMatchObject([{ type: 'delete', id: 1 }]);
+
+    online = true;
+    await store.getState().replayOutbox();
+    expect(store.getState().outbox).toEqual([]);
+    expect(store.getState().commentSync).toEqual({});
+    expectActions(['deleteComment/optimistic', 'deleteComment/queued', 'replayOutbox/send', 'deleteComment/success']);
+  });
+});
+
+describe('comment query', () => {
+  it('setCommentQuery merges changes and resetCommentQuery restores the defaults', () => {
+    const { store } = createTestAppStore();
+
+    store.getState().setCommentQuery({ search: 'foo', sortBy: 'name' });
+    expect(store.getState().commentQuery).toEqual({ ...DEFAULT_COMMENT_QUERY, search: 'foo', sortBy: 'name' });
+
+    store.getState().resetCommentQuery();
+    expect(store.getState().commentQuery).toEqual(DEFAULT_COMMENT_QUERY);
+  });
+});
+
+describe('backup and reset', () => {
+  it('exportBackup and importBackup round-trip the persisted state', () => {
+    const source = createTestAppStore().store;
+    const id = source.getState().createCounter('Copied');
+    source.getState().incrementBy(id, 4);
+    const backup = JSON.parse(JSON.stringify(source.getState().exportBackup()));
+
+    const { store, expectActions } = createTestAppStore();
+    store.getState().importBackup(backup, 'merge');
+    expect(store.getState().counters[id]).toEqual({ id, name: 'Copied', count: 4 });
+
+    store.getState().importBackup(backup, 'replace');
+    expect(store.getState().counterIds).toEqual(source.getState().counterIds);
+    expect(() => store.getState().importBackup({ nope: true }, 'merge')).toThrow('Not a backup file');
+    expectActions(['importBackup/merge', 'importBackup/replace']);
+  });
+
+  it('resetAll restores every slice', async () => {
+    const { store } = createTestAppStore({ routes: [commentPages(5)] });
+    store.getState().createCounter();
+    store.getState().increment(DEFAULT_COUNTER_ID);
+    await store.getState().fetchComments();
+
+    store.getState().resetAll();
+    expect(store.getState()).toMatchObject({
+      counterIds: [DEFAULT_COUNTER_ID],
+      counters: { [DEFAULT_COUNTER_ID]: { count: 0 } },
+      commentIds: [],
+      outbox: []
+    });
+  });
+
+  it('resetAppStore drops comments prefetched by the server', async () => {
+    const { store } = createTestAppStore({ initialState: { commentsById: { 1: testComment(1) }, commentIds: [1], page: 1 } });
+    store.getState().increment(DEFAULT_COUNTER_ID);
+
+    await resetAppStore(store);
+    expect(store.getState()).toMatchObject({
+      counters: { [DEFAULT_COUNTER_ID]: { count: 0 } },
+      commentsById: {},
+      commentIds: [],
+      page: 0
+    });
+  });
+
+  it('resetAppStore removes the quarantined payload too', async () => {
+    const storage = createMemoryStorage();
+    storage.setItem(`${APP_STORAGE_KEY}:quarantine`, JSON.stringify({ state: { commentsById: {} }, version: 99 }));
+    const { store } = createTestAppStore({ storage });
+
+    await resetAppStore(store);
+    expect(storage.getItem(`${APP_STORAGE_KEY}:quarantine`)).toBeNull();
+  });
+});
+
+describe('useStore', () => {
+  it('is the app store hook, so both read and update the same state', () => {
+    expect(useStore).toBe(useAppStore);
+
+    const { result } = renderHook(() => ({
+      count: useStore((state) => state.counters[DEFAULT_COUNTER_ID].count),
+      setCount: useAppStore((state) => state.setCount)
+    }), { wrapper: AppStoreProvider });
+
+    act(() => result.current.setCount(DEFAULT_COUNTER_ID, 42));
+    expect(result.current.count).toBe(42);
+  });
+});
@@ -0,0 +1,59 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import { AppStoreProvider, useAppStoreApi } from './AppStoreProvider';
+import { useCommentQueryUrlSync } from './useCommentQueryUrlSync';
+import { DEFAULT_COMMENT_QUERY } from './commentQuery';
+
+function renderSynced() {
+  return renderHook(() => {
+    useCommentQueryUrlSync();
+    return useAppStoreApi();
+  }, { wrapper: AppStoreProvider });
+}
+
+const unmounts: (() => void)[] = [];
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  unmounts.splice(0).forEach((unmount) => unmount());
+  window.localStorage.clear();
+  window.history.replaceState(null, '', '/');
+});
+
+it('reads the query from the URL on mount', () => {
+  window.history.replaceState(null, '', '/?q=lorem&post=2&tab=comments');
+  const { result, unmount } = renderSynced();
+  unmounts.push(unmount);
+
+  expect(result.current.getState().commentQuery).toEqual({ ...DEFAULT_COMMENT_QUERY, search: 'lorem', postId: 2 });
+});
+
+it('replaces the history entry with each query change, keeping other params and the hash', () => {
+  window.history.replaceState(null, '', '/?tab=comments#list');
+  const { result, unmount } = renderSynced();
+  unmounts.push(unmount);
+  const { length } = window.history;
+
+  act(() => result.current.getState().setCommentQuery({ sortBy: 'name', sortDirection: 'desc' }));
+  expect(window.location.search).toBe('?tab=comments&sort=name&dir=desc');
+  expect(window.location.hash).toBe('#list');
+
+  act(() => result.current.getState().resetCommentQuery());
+  expect(window.location.search).toBe('?tab=comments');
+  expect(window.history.length).toBe(length);
+});
+
+it('follows back and forward navigation', () => {
+  const { result, unmount } = renderSynced();
+  unmounts.push(unmount);
+
+  act(() => {
+    window.history.replaceState(null, '', '/?domain=example.com');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+  });
+
+  expect(result.current.getState().commentQuery.emailDomain).toBe('example.com');
+});
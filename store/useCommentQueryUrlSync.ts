@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { shallow } from 'zustand/vanilla/shallow';
+import { useAppStoreApi } from './AppStoreProvider';
+import { parseCommentQuery, toSearchParams } from './commentQuery';
+
+/**
+ * Keeps the store's comment query and the URL search params in step: the
+ * URL is read on mount and on back/forward navigation, and every query
+ * change replaces the current history entry, so filtered views can be
+ * shared and survive reloads without flooding the history.
+ */
+export function useCommentQueryUrlSync(): void {
+  const store = useAppStoreApi();
+
+  useEffect(() => {
+    const readUrl = () => {
+      const query = parseCommentQuery(new URLSearchParams(window.location.search));
+      if (!shallow(query, store.getState().commentQuery)) {
+        store.getState().setCommentQuery(query);
+      }
+    };
+    readUrl();
+
+    const unsubscribe = store.subscribe((state, previousState) => {
+      if (state.commentQuery === previousState.commentQuery) return;
+
+      const current = new URLSearchParams(window.location.search);
+      const next = toSearchParams(state.commentQuery, current);
+      if (next.toString() === current.toString()) return;
+
+      const search = next.toString();
+      window.history.replaceState(
+        window.history.state,
+        '',
+        `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`
+      );
+    });
+
+    window.addEventListener('popstate', readUrl);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('popstate', readUrl);
+    };
+  }, [store]);
+}
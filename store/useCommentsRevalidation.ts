@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useAppStoreApi } from './AppStoreProvider';
+import { awaitHydration } from './hydration';
+
+/**
+ * Stale-while-revalidate for comments: whatever was persisted renders
+ * right away, and the loaded pages are refetched in the background once
+ * hydration settles, whenever the window regains focus and whenever the
+ * connection comes back. Bursts of these events are coalesced by
+ * `revalidateComments` itself.
+ */
+export function useCommentsRevalidation(): void {
+  const store = useAppStoreApi();
+
+  useEffect(() => {
+    let hydrated = false;
+    const revalidate = () => {
+      // Before hydration there is nothing persisted to compare against yet
+      if (hydrated) void store.getState().revalidateComments();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') revalidate();
+    };
+
+    awaitHydration(store).then(() => {
+      hydrated = true;
+      revalidate();
+    });
+
+    window.addEventListener('focus', revalidate);
+    window.addEventListener('online', revalidate);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('focus', revalidate);
+      window.removeEventListener('online', revalidate);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [store]);
+}
@@ -1,3 +1,5 @@
+import type { StateCreator } from 'zustand';
+
 export interface Comment {
   postId: number;
   id: number;
@@ -6,29 +8,177 @@ export interface Comment {
   body: string;
 }
 
-export interface CounterState {
+export interface CounterConstraints {
+  min: number;
+  max: number;
+  /** What increment and decrement move by */
+  step: number;
+  integerOnly: boolean;
+  /** What happens when increment/decrement/incrementBy leave the range */
+  overflow: 'clamp' | 'wrap';
+}
+
+export interface NamedCounter {
+  id: string;
+  name: string;
   count: number;
-  increment: () => void;
-  decrement: () => void;
-  incrementBy: (amount: number) => void;
-  reset: () => void;
 }
 
-export interface CommentsState {
-  comments: Comment[];
+export interface CountersCollection {
+  counters: Record<string, NamedCounter>;
+  /** Ids in display order */
+  counterIds: string[];
+}
+
+export interface CounterState extends CountersCollection {
+  /** Apply to every counter */
+  counterConstraints: CounterConstraints;
+  /** Why the last change to a counter was rejected, by counter id; cleared by its next accepted change */
+  counterErrors: Record<string, string>;
+  /** Returns the new counter's id */
+  createCounter: (name?: string) => string;
+  renameCounter: (id: string, name: string) => void;
+  removeCounter: (id: string) => void;
+  increment: (id: string) => void;
+  decrement: (id: string) => void;
+  incrementBy: (id: string, amount: number) => void;
+  setCount: (id: string, value: number) => void;
+  reset: (id: string) => void;
+}
+
+export interface FetchCommentsOptions {
+  /** Refetch even when fresh, cancelling any request already running */
+  force?: boolean;
+  /** Age in ms after which comments are refetched */
+  staleTime?: number;
+}
+
+export interface NormalizedComments {
+  commentsById: Record<number, Comment>;
+  /** Ids in the order they were loaded */
+  commentIds: number[];
+}
+
+export interface CommentsPaging {
+  /** Last page loaded, 0 before the first fetch */
+  page: number;
+  hasMore: boolean;
+  total: number | null;
+}
+
+export interface CommentsState extends NormalizedComments, CommentsPaging {
   loading: boolean;
+  /** A background refetch of the loaded pages is running; they stay on screen meanwhile */
+  revalidating: boolean;
   error: string | null;
-  isHydrated: boolean;
-  fetchComments: () => Promise<void>;
-  setHydrated: () => void;
+  lastFetchedAt: number | null;
+  /** Loads the first page, replacing what is loaded */
+  fetchComments: (options?: FetchCommentsOptions) => Promise<void>;
+  fetchNextPage: () => Promise<void>;
+  /**
+   * Refetches the loaded pages in the background, updating only the rows that
+   * changed. Skipped while a request runs or comments were fetched moments ago.
+   */
+  revalidateComments: () => Promise<void>;
   clearComments: () => void;
 }
 
-export interface AppState extends CounterState, CommentsState {
+export type CommentSortKey = 'id' | 'name' | 'length';
+
+export interface CommentQuery {
+  /** Matched against name, body and email */
+  search: string;
+  postId: number | null;
+  /** Lower-case domain, e.g. 'gardner.biz' */
+  emailDomain: string | null;
+  /** 'length' sorts by body length */
+  sortBy: CommentSortKey;
+  sortDirection: 'asc' | 'desc';
+}
+
+export interface CommentQueryState {
+  commentQuery: CommentQuery;
+  setCommentQuery: (changes: Partial<CommentQuery>) => void;
+  resetCommentQuery: () => void;
+}
+
+export type CommentDraft = Omit<Comment, 'id'>;
+
+export type CommentChanges = Partial<Pick<Comment, 'name' | 'email' | 'body'>>;
+
+/**
+ * A comment mutation made while offline, replayed once the browser is back
+ * online. `previous` is what to restore if the server rejects it.
+ */
+export type QueuedCommentMutation =
+  | { type: 'create'; id: number; draft: CommentDraft }
+  | { type: 'update'; id: number; changes: CommentChanges; previous: Comment }
+  | { type: 'delete'; id: number; previous: Comment };
+
+export type CommentSyncStatus =
+  | { state: 'pending' | 'queued'; type: QueuedCommentMutation['type'] }
+  | { state: 'failed'; type: QueuedCommentMutation['type']; error: string };
+
+export interface CommentMutationsState {
+  /** Sync status by comment id; comments without an entry are in sync */
+  commentSync: Record<number, CommentSyncStatus>;
+  outbox: QueuedCommentMutation[];
+  addComment: (draft: CommentDraft) => Promise<void>;
+  editComment: (id: number, changes: CommentChanges) => Promise<void>;
+  deleteComment: (id: number) => Promise<void>;
+  /** Sends queued mutations in order; stops at the first network failure */
+  replayOutbox: () => Promise<void>;
+  dismissCommentError: (id: number) => void;
+}
+
+export interface PersistedState extends CountersCollection, NormalizedComments, CommentsPaging {
+  lastFetchedAt: number | null;
+  outbox: QueuedCommentMutation[];
+}
+
+/**
+ * A downloadable copy of the persisted state. `version` is the persisted
+ * state version it was written at, so reading it back goes through the
+ * same migrations as a stored payload.
+ */
+export interface PersistedStateBackup {
+  format: 'app-storage-backup';
+  /** Storage key of the store it came from */
+  key: string;
+  version: number;
+  exportedAt: string;
+  state: PersistedState;
+}
+
+/**
+ * - `replace`: the backup takes the place of the current persisted state
+ * - `merge`: counters and comments from the backup are added, replacing
+ *   entries with the same id; queued changes from both are kept
+ */
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupState {
+  exportBackup: () => PersistedStateBackup;
+  /** Migrates and validates `backup` first; throws if it can't be read */
+  importBackup: (backup: unknown, mode: BackupImportMode) => void;
+}
+
+export interface AppState extends CounterState, CommentsState, CommentMutationsState, CommentQueryState, BackupState {
   resetAll: () => void;
 }
 
-export interface PersistedState {
-  comments: Comment[];
-  count: number;
-}
\ No newline at end of file
+// What undo/redo steps through. Queued comment changes are left out, since
+// they describe requests rather than what the user sees.
+export type AppHistorySnapshot = Omit<PersistedState, 'outbox'>;
+
+// Middlewares wrapping every slice of the app store, outermost first:
+// devtools(persist(actionLog(temporal(...)))). actionLog adds no mutator, so
+// it isn't listed. Slices typed against this list get the action-name
+// argument on `set` and access to `api.persist` and `api.temporal`.
+export type AppMiddlewares = [
+  ['zustand/devtools', never],
+  ['zustand/persist', unknown],
+  ['app/temporal', AppHistorySnapshot]
+];
+
+export type AppSliceCreator<Slice> = StateCreator<AppState, AppMiddlewares, [], Slice>;
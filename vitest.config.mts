@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // tsconfig keeps JSX for Next.js to compile; tests need it compiled here
+  esbuild: { jsx: 'automatic' },
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) }
+  },
+  test: {
+    // Stores touch window, storage and BroadcastChannel; SSR tests opt out per file
+    environment: 'jsdom',
+    restoreMocks: true
+  }
+});